@@ -1,9 +1,28 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { TabView, StockAnalysis } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { TabView, StockAnalysis, AnalysisFailure, AnalysisBatchResult, LedgerEntry, CostBasisMethod, AlertRule, AlertEvent, DividendEvent, Currency, FxSettings, SecurityRecord, AISettings, MoneyBasis } from './types';
 import StockTable from './components/StockTable';
 import RetirementCalc from './components/RetirementCalc';
+import LedgerPanel from './components/LedgerPanel';
+import AlertPanel from './components/AlertPanel';
+import DividendPanel from './components/DividendPanel';
+import FxPanel from './components/FxPanel';
+import AISettingsPanel from './components/AISettingsPanel';
+import AssistantPanel from './components/AssistantPanel';
+import SymbolSearchInput from './components/SymbolSearchInput';
 import { analyzePortfolio, analyzeMarketTrends } from './services/geminiService';
-import { LineChart, Briefcase, Plus, X, Search, Zap, KeyRound, AlertTriangle, PieChart as PieIcon, TrendingUp, RefreshCw, Save, CheckCircle } from 'lucide-react';
+import { AssistantContext } from './services/assistant';
+import { loadActiveScenario } from './services/scenarios';
+import { projectRetirement } from './services/retirementModel';
+import { loadAISettings, saveAISettings, defaultAISettings, getAIProvider, getApiKey } from './services/aiProvider';
+import { loadLedger, saveLedger, loadCostBasisMethod, saveCostBasisMethod, computePositions } from './services/ledger';
+import { loadAlertRules, saveAlertRules, loadAlertHistory, appendAlertHistory, clearAlertHistory, evaluateAlerts, showAlertNotifications } from './services/alerts';
+import { loadDividends, saveDividends, receiptLedgerEntries } from './services/dividends';
+import { SymbolParseResult, hasHolidayCalendar, saveMarketHolidays } from './services/exchanges';
+import { quoteFreshness } from './services/quoteFreshness';
+import { loadSecurityMaster, importSecurityList, refreshSecurityMasterFromExchanges, resolveSymbolInput } from './services/securityMaster';
+import { loadFxSettings, saveFxSettings, loadSymbolCurrencies, saveSymbolCurrencies, holdingCurrency, fxExposure } from './services/fx';
+import { MARKET_DATA_PROVIDER_OPTIONS, getMarketDataProviderId, setMarketDataProviderId, importFixtureQuotes, fetchTwseHolidays } from './services/marketData';
+import { LineChart, Briefcase, Plus, X, Search, Zap, KeyRound, AlertTriangle, PieChart as PieIcon, TrendingUp, RefreshCw, Save, CheckCircle, Database, Upload } from 'lucide-react';
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabView>(TabView.MARKET_ANALYSIS);
@@ -24,6 +43,25 @@ const App: React.FC = () => {
     }
   });
 
+  // 1b. Trade Ledger (交易紀錄) - quantities of symbols with entries come from here
+  const [ledger, setLedger] = useState<LedgerEntry[]>(() => loadLedger());
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(() => loadCostBasisMethod());
+
+  // 1c. Price Alerts (價格提醒) - evaluated on every portfolio refresh
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules());
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(() => loadAlertHistory());
+
+  // 1d. Dividends (股利) - declared events and recorded receipts
+  const [dividends, setDividends] = useState<DividendEvent[]>(() => loadDividends());
+
+  // 1e. Currencies (幣別) - per-symbol tags and the FX rates used for base-currency totals
+  const [fxSettings, setFxSettings] = useState<FxSettings>(() => loadFxSettings());
+  const [symbolCurrencies, setSymbolCurrencies] = useState<Record<string, Currency>>(() => loadSymbolCurrencies());
+
+  // 1f. Security master (證券主檔) - validates and autocompletes added symbols
+  const [securities, setSecurities] = useState<SecurityRecord[]>(() => loadSecurityMaster());
+  const [refreshingSecurities, setRefreshingSecurities] = useState(false);
+
   // 2. My Symbols (股票代碼清單)
   const [mySymbols, setMySymbols] = useState<string[]>(() => {
     try {
@@ -60,21 +98,38 @@ const App: React.FC = () => {
   });
 
   const [portfolioLoading, setPortfolioLoading] = useState(false);
+  const [analysisFailures, setAnalysisFailures] = useState<AnalysisFailure[]>([]);
+  // Symbols of the running analysis that haven't come back yet
+  const [analyzingSymbols, setAnalyzingSymbols] = useState<string[]>([]);
   const [inputSymbol, setInputSymbol] = useState('');
   const [showSaveToast, setShowSaveToast] = useState(false);
   
   // State for Market Trends
   const [trendStocks, setTrendStocks] = useState<StockAnalysis[]>([]);
   const [trendLoading, setTrendLoading] = useState(false);
+  // When a result came from the AI response cache, the time it was cached
+  const [trendCachedAt, setTrendCachedAt] = useState<string | null>(null);
+  const [portfolioCachedAt, setPortfolioCachedAt] = useState<string | null>(null);
+  // Running AI requests, so the cancel buttons can abort them
+  const trendAbort = useRef<AbortController | null>(null);
+  const portfolioAbort = useRef<AbortController | null>(null);
+  // Current symbol list for callbacks of a running analysis, which outlive the render they started in
+  const mySymbolsRef = useRef(mySymbols);
+  mySymbolsRef.current = mySymbols;
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
 
-  // Check for API Key on mount
+  // Market data source (quotes never come from the AI)
+  const [marketDataProviderId, setMarketDataProviderIdState] = useState<string>(() => getMarketDataProviderId());
+
+  // Which model answers each AI feature
+  const [aiSettings, setAISettings] = useState<AISettings>(() => loadAISettings());
+
+  // Ticks every minute so quote staleness follows the trading sessions
+  const [now, setNow] = useState(() => new Date());
+
+  // Check for API Key on mount (only the Gemini provider needs one)
   useEffect(() => {
-    const storedKey = localStorage.getItem('gemini_api_key');
-    // @ts-ignore
-    const hasEnvKey = (typeof process !== 'undefined' && process.env.API_KEY) || (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY);
-    
-    if (!storedKey && !hasEnvKey) {
+    if (getAIProvider().needsApiKey && !getApiKey()) {
       setShowApiKeyModal(true);
     } else {
       // Only fetch trends if we have a key
@@ -83,6 +138,22 @@ const App: React.FC = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Fetch the TWSE holiday schedule once the bundled calendar no longer covers this year
+  useEffect(() => {
+    if (hasHolidayCalendar('TW', new Date().getFullYear())) return;
+    fetchTwseHolidays()
+      .then(dates => {
+        saveMarketHolidays('TW', dates);
+        setNow(new Date());
+      })
+      .catch(error => console.warn("TWSE holiday schedule unavailable:", error));
+  }, []);
+
   // --- PERSISTENCE EFFECT HANDLERS (Backup) ---
   // Although we save immediately in handlers, these ensure sync on any other state changes
   useEffect(() => {
@@ -97,6 +168,63 @@ const App: React.FC = () => {
     localStorage.setItem('finance_portfolio_data', JSON.stringify(portfolioStocks));
   }, [portfolioStocks]);
 
+  useEffect(() => {
+    saveLedger(ledger);
+  }, [ledger]);
+
+  useEffect(() => {
+    saveAlertRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveDividends(dividends);
+  }, [dividends]);
+
+  useEffect(() => {
+    saveFxSettings(fxSettings);
+  }, [fxSettings]);
+
+  useEffect(() => {
+    saveAISettings(aiSettings);
+  }, [aiSettings]);
+
+  useEffect(() => {
+    saveSymbolCurrencies(symbolCurrencies);
+  }, [symbolCurrencies]);
+
+  const positions = useMemo(() => computePositions(ledger, costBasisMethod), [ledger, costBasisMethod]);
+
+  // Ledger positions override hand-typed quantities
+  const effectiveQuantities = useMemo(() => {
+    const merged = { ...stockQuantities };
+    Object.values(positions).forEach(pos => { merged[pos.symbol] = pos.quantity; });
+    return merged;
+  }, [stockQuantities, positions]);
+
+  const holdingCurrencies = useMemo(() => {
+    const currencies: Record<string, Currency> = {};
+    mySymbols.forEach(symbol => {
+      currencies[symbol] = holdingCurrency(symbol, symbolCurrencies, portfolioStocks.find(s => s.symbol === symbol));
+    });
+    return currencies;
+  }, [mySymbols, symbolCurrencies, portfolioStocks]);
+
+  // Market value of the holdings grouped by currency
+  const portfolioExposure = useMemo(() => fxExposure(
+    portfolioStocks.map(stock => ({
+      currency: holdingCurrencies[stock.symbol] || 'TWD',
+      amount: stock.currentPrice * (effectiveQuantities[stock.symbol] || 0),
+    })),
+    fxSettings.baseCurrency,
+    fxSettings.rates
+  ), [portfolioStocks, holdingCurrencies, effectiveQuantities, fxSettings]);
+
+  // Saved analyses survive reloads; these are the ones whose quotes have been superseded
+  const outdatedStocks = useMemo(
+    () => portfolioStocks.filter(stock => quoteFreshness(stock, now).needsRefresh),
+    [portfolioStocks, now]
+  );
+
   // --- HANDLERS ---
 
   const handleManualSave = () => {
@@ -104,6 +232,7 @@ const App: React.FC = () => {
       localStorage.setItem('finance_portfolio_symbols', JSON.stringify(mySymbols));
       localStorage.setItem('finance_stock_quantities', JSON.stringify(stockQuantities));
       localStorage.setItem('finance_portfolio_data', JSON.stringify(portfolioStocks));
+      saveLedger(ledger);
       setShowSaveToast(true);
       setTimeout(() => setShowSaveToast(false), 2000);
     } catch (e) {
@@ -120,36 +249,56 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFetchTrends = async () => {
+  const handleFetchTrends = async (forceRefresh = false) => {
     setErrorMsg(null);
     setTrendLoading(true);
+    const controller = new AbortController();
+    trendAbort.current = controller;
+
+    // The previous list stays until the first new row streams in
+    let streamed = 0;
+    const onStock = (stock: StockAnalysis) => {
+      setTrendStocks(prev => [...(streamed++ === 0 ? [] : prev.filter(s => s.symbol !== stock.symbol)), stock]);
+    };
+
     try {
-      const data = await analyzeMarketTrends();
-      setTrendStocks(data);
+      const { stocks, cachedAt } = await analyzeMarketTrends({ forceRefresh, onStock, signal: controller.signal });
+      setTrendStocks(stocks);
+      setTrendCachedAt(cachedAt || null);
     } catch (err) {
-      console.error(err);
-      setErrorMsg("無法取得市場資訊。請確認您的 API 金鑰是否正確，或稍後再試。");
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setErrorMsg("無法取得市場資訊。請確認您的 API 金鑰是否正確，或稍後再試。");
+      }
     } finally {
+      trendAbort.current = null;
       setTrendLoading(false);
     }
   };
 
   const handleAddSymbol = () => {
     if (inputSymbol) {
-      const newSymbols = inputSymbol.split(/[, ]+/).map(s => {
-        const cleanS = s.trim().toUpperCase();
-        // Client-side quick fix for "304" input
-        if (cleanS === '304') return '3042'; 
-        return cleanS;
-      }).filter(s => s.length > 0);
-      
-      const uniqueNewSymbols = newSymbols.filter(s => !mySymbols.includes(s));
+      setErrorMsg(null);
+      const parsed = inputSymbol.split(/[, ]+/)
+        .map(s => s.trim().toUpperCase())
+        .filter(s => s.length > 0)
+        .map(s => resolveSymbolInput(s, securities));
+
+      // Unknown codes and names are reported with suggestions, not guessed
+      const rejected = parsed.filter((p): p is Extract<SymbolParseResult, { ok: false }> => !p.ok);
+      const newSymbols = parsed.flatMap(p => p.ok ? [p.symbol] : []);
+      const uniqueNewSymbols = newSymbols.filter((s, i) => !mySymbols.includes(s) && newSymbols.indexOf(s) === i);
       
       if (uniqueNewSymbols.length > 0) {
         const updatedList = [...mySymbols, ...uniqueNewSymbols];
         setMySymbols(updatedList);
         // Immediate Save
         localStorage.setItem('finance_portfolio_symbols', JSON.stringify(updatedList));
+      }
+      if (rejected.length > 0) {
+        setErrorMsg(`無法辨識的代碼：${rejected.map(r => `${r.input} (${r.reason})`).join('、')}`);
+        setInputSymbol(rejected.map(r => r.input).join(', '));
+      } else {
         setInputSymbol('');
       }
     }
@@ -170,6 +319,8 @@ const App: React.FC = () => {
   };
 
   const handleQuantityChange = (symbol: string, qty: number) => {
+    // Quantities of ledger-tracked symbols are derived, not typed
+    if (positions[symbol]) return;
     setStockQuantities(prev => {
       const updated = { ...prev, [symbol]: qty };
       // Immediate Save
@@ -178,20 +329,201 @@ const App: React.FC = () => {
     });
   };
 
-  const handleAnalyzePortfolio = async () => {
-    if (mySymbols.length === 0) return;
+  const handleAddLedgerEntry = (entry: LedgerEntry) => {
+    setLedger(prev => [...prev, entry]);
+    if (!mySymbols.includes(entry.symbol)) {
+      const updatedList = [...mySymbols, entry.symbol];
+      setMySymbols(updatedList);
+      localStorage.setItem('finance_portfolio_symbols', JSON.stringify(updatedList));
+    }
+  };
+
+  const handleDeleteLedgerEntry = (id: string) => {
+    setLedger(prev => prev.filter(e => e.id !== id));
+  };
+
+  const handleAddAlertRule = (rule: AlertRule) => {
+    setAlertRules(prev => [...prev, rule]);
+  };
+
+  const handleToggleAlertRule = (id: string) => {
+    setAlertRules(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled } : r));
+  };
+
+  const handleDeleteAlertRule = (id: string) => {
+    setAlertRules(prev => prev.filter(r => r.id !== id));
+  };
+
+  const handleClearAlertHistory = () => {
+    clearAlertHistory();
+    setAlertHistory([]);
+  };
+
+  const handleAddDividend = (event: DividendEvent) => {
+    setDividends(prev => [...prev, event]);
+  };
+
+  // Adds to (or, negative, takes from) a hand-typed quantity
+  const adjustTypedQuantity = (symbol: string, delta: number) => {
+    setStockQuantities(prev => {
+      const updated = { ...prev, [symbol]: Math.max(0, (prev[symbol] || 0) + delta) };
+      localStorage.setItem('finance_stock_quantities', JSON.stringify(updated));
+      return updated;
+    });
+  };
+
+  // Deleting a recorded event also takes its receipt back out of the ledger or typed quantity
+  const handleDeleteDividend = (id: string) => {
+    const event = dividends.find(d => d.id === id);
+    setDividends(prev => prev.filter(d => d.id !== id));
+    if (!event?.ledgerEntryIds) return;
+    const ids = event.ledgerEntryIds;
+    const sharesInLedger = ledger.some(e => ids.includes(e.id) && e.type === 'BUY');
+    setLedger(prev => prev.filter(e => !ids.includes(e.id)));
+    if (event.receivedShares && !sharesInLedger) adjustTypedQuantity(event.symbol, -event.receivedShares);
+  };
+
+  // Receipts are booked into the ledger so realized P&L and quantities include them
+  const handleRecordDividend = (event: DividendEvent, quantity: number, cash: number, shares: number) => {
+    const tracked = !!positions[event.symbol];
+    const entries = receiptLedgerEntries(event, quantity, cash, shares, tracked);
+    setDividends(prev => prev.map(d => d.id === event.id
+      ? { ...d, receivedCash: cash, receivedShares: shares, heldQuantity: quantity, ledgerEntryIds: entries.map(e => e.id) }
+      : d
+    ));
+    if (entries.length > 0) setLedger(prev => [...prev, ...entries]);
+    if (shares > 0 && !tracked) adjustTypedQuantity(event.symbol, shares);
+  };
+
+  const handleCurrencyChange = (symbol: string, currency: Currency) => {
+    setSymbolCurrencies(prev => ({ ...prev, [symbol]: currency }));
+  };
+
+  const handleCostBasisMethodChange = (method: CostBasisMethod) => {
+    setCostBasisMethod(method);
+    saveCostBasisMethod(method);
+  };
+
+  // New rows replace old ones; symbols that failed or weren't analyzed keep their previous row.
+  // Reads the latest symbol list, so a symbol removed during a run doesn't come back with its batch.
+  const mergeAnalyses = (base: StockAnalysis[], stocks: StockAnalysis[]): StockAnalysis[] => mySymbolsRef.current
+    .map(symbol => stocks.find(s => s.symbol === symbol) || base.find(s => s.symbol === symbol))
+    .filter((s): s is StockAnalysis => !!s);
+
+  // Analyzes the given symbols (all of them by default), updating rows batch by batch
+  const handleAnalyzePortfolio = async (symbols: string[] = mySymbols, forceRefresh = false) => {
+    if (symbols.length === 0) return;
     setErrorMsg(null);
     setPortfolioLoading(true);
+    setAnalyzingSymbols(symbols);
+    const previous = portfolioStocks;
+    const controller = new AbortController();
+    portfolioAbort.current = controller;
+
+    // Rows stream in one by one; the batch result then settles failures
+    const applyStock = (stock: StockAnalysis) => {
+      setPortfolioStocks(prev => {
+        const updated = mergeAnalyses(prev, [stock]);
+        localStorage.setItem('finance_portfolio_data', JSON.stringify(updated));
+        return updated;
+      });
+      setAnalyzingSymbols(prev => prev.filter(s => s !== stock.symbol));
+    };
+
+    const applyBatch = (batch: string[], result: AnalysisBatchResult) => {
+      setPortfolioStocks(prev => {
+        const updated = mergeAnalyses(prev, result.stocks);
+        // Immediate Save
+        localStorage.setItem('finance_portfolio_data', JSON.stringify(updated));
+        return updated;
+      });
+      setAnalysisFailures(prev => [
+        ...prev.filter(f => !batch.includes(f.symbol)),
+        ...result.failures.filter(f => mySymbolsRef.current.includes(f.symbol)),
+      ]);
+      setAnalyzingSymbols(prev => prev.filter(s => !batch.includes(s)));
+    };
+
     try {
-      const data = await analyzePortfolio(mySymbols);
-      setPortfolioStocks(data);
-      // Immediate Save
-      localStorage.setItem('finance_portfolio_data', JSON.stringify(data));
+      const { stocks, cachedAt } = await analyzePortfolio(symbols, {
+        forceRefresh,
+        onBatch: applyBatch,
+        onStock: applyStock,
+        signal: controller.signal,
+      });
+      setPortfolioCachedAt(cachedAt || null);
+
+      // Check alert rules against the previous snapshot
+      const evaluation = evaluateAlerts(alertRules, previous, mergeAnalyses(previous, stocks));
+      setAlertRules(evaluation.rules);
+      if (evaluation.events.length > 0) {
+        setAlertHistory(appendAlertHistory(evaluation.events));
+        showAlertNotifications(evaluation.events);
+      }
     } catch (err) {
-      console.error(err);
-      setErrorMsg("分析失敗。請確認您的 API 金鑰是否正確。");
+      // Cancelled runs keep the rows that already arrived
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setErrorMsg("分析失敗。請確認您的 API 金鑰是否正確。");
+      }
     } finally {
+      portfolioAbort.current = null;
       setPortfolioLoading(false);
+      setAnalyzingSymbols([]);
+    }
+  };
+
+  const handleAISettingsChange = (settings: AISettings) => {
+    setAISettings(settings);
+    if (settings.providerId === 'gemini' && !getApiKey()) setShowApiKeyModal(true);
+  };
+
+  // Lets the app run without a key: switches every AI feature to the fixture replay
+  const handleUseOfflineAI = () => {
+    const settings = { ...aiSettings, providerId: 'fixture' as const, models: defaultAISettings('fixture').models };
+    saveAISettings(settings);
+    setAISettings(settings);
+    setShowApiKeyModal(false);
+    handleFetchTrends();
+  };
+
+  const handleProviderChange = (id: string) => {
+    setMarketDataProviderId(id);
+    setMarketDataProviderIdState(id);
+  };
+
+  const handleImportSecurities = async (file: File) => {
+    try {
+      const count = importSecurityList(await file.text());
+      setSecurities(loadSecurityMaster());
+      alert(`已匯入 ${count} 筆證券資料`);
+    } catch (e) {
+      console.error("Security list import failed", e);
+      alert("匯入失敗，請確認檔案為 JSON 陣列或含 code,name,market 標題列的 CSV");
+    }
+  };
+
+  const handleRefreshSecurities = async () => {
+    setRefreshingSecurities(true);
+    try {
+      const count = await refreshSecurityMasterFromExchanges();
+      setSecurities(loadSecurityMaster());
+      alert(`已從證交所 / 櫃買中心更新 ${count} 筆代碼`);
+    } catch (e) {
+      console.error("Security list refresh failed", e);
+      alert("無法取得證交所 / 櫃買中心清單，請稍後再試");
+    } finally {
+      setRefreshingSecurities(false);
+    }
+  };
+
+  const handleImportFixtures = async (file: File) => {
+    try {
+      const count = importFixtureQuotes(await file.text());
+      alert(`已匯入 ${count} 筆樣本報價`);
+    } catch (e) {
+      console.error("Fixture import failed", e);
+      alert("匯入失敗，請確認檔案為 JSON 陣列或含標題列的 CSV");
     }
   };
 
@@ -202,15 +534,27 @@ const App: React.FC = () => {
     }
   };
 
-  // Helper to check if we have symbols but missing analysis data
-  const hasPendingSymbols = useMemo(() => {
-    if (mySymbols.length === 0) return false;
-    // If portfolioStocks is empty, obviously pending
-    if (portfolioStocks.length === 0) return true;
-    // Or if symbols count mismatch significantly (user added new ones)
+  // The assistant answers from the analyzed holdings and the retirement plan last edited
+  const getAssistantContext = (): AssistantContext => {
+    const { plan } = loadActiveScenario();
+    return {
+      stocks: portfolioStocks,
+      quantities: effectiveQuantities,
+      positions,
+      currencies: holdingCurrencies,
+      fxSettings,
+      plan,
+      result: projectRetirement(plan)?.result ?? null,
+      basis: (localStorage.getItem('finance_money_basis') as MoneyBasis) || 'TODAY',
+    };
+  };
+
+  // Symbols without analysis data yet (just added, or never analyzed successfully)
+  const pendingSymbols = useMemo(() => {
     const analyzedSymbols = portfolioStocks.map(s => s.symbol);
-    return mySymbols.some(s => !analyzedSymbols.includes(s));
+    return mySymbols.filter(s => !analyzedSymbols.includes(s));
   }, [mySymbols, portfolioStocks]);
+  const hasPendingSymbols = pendingSymbols.length > 0;
 
   return (
     <div className="min-h-screen bg-slate-50 font-sans text-slate-900 pb-20">
@@ -242,6 +586,12 @@ const App: React.FC = () => {
               className="w-full p-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
             />
             <div className="flex justify-end space-x-3 pt-2">
+              <button
+                onClick={handleUseOfflineAI}
+                className="mr-auto px-3 py-2 text-sm text-slate-500 hover:bg-slate-100 rounded-lg"
+              >
+                改用離線模擬
+              </button>
               <a 
                 href="https://aistudio.google.com/app/apikey" 
                 target="_blank" 
@@ -347,6 +697,10 @@ const App: React.FC = () => {
           </div>
         )}
 
+        <div className="mb-6">
+          <AISettingsPanel settings={aiSettings} onChange={handleAISettingsChange} />
+        </div>
+
         {activeTab === TabView.MARKET_ANALYSIS && (
           <div className="space-y-8 animate-fadeIn">
             
@@ -357,17 +711,34 @@ const App: React.FC = () => {
                   <Zap className="w-6 h-6 mr-2 text-yellow-500" /> 
                   本日市場熱點
                 </h2>
-                <button 
-                  onClick={handleFetchTrends}
-                  disabled={trendLoading}
-                  className="text-sm text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
-                >
-                  {trendLoading ? '更新中...' : '刷新資訊'}
-                </button>
+                <div className="flex items-center gap-3">
+                  {trendLoading && (
+                    <button
+                      onClick={() => trendAbort.current?.abort()}
+                      className="text-sm text-slate-500 hover:text-rose-600 font-medium"
+                    >
+                      取消
+                    </button>
+                  )}
+                  {trendCachedAt && !trendLoading && (
+                    <span className="text-xs text-slate-400">
+                      快取結果 ({new Date(trendCachedAt).toLocaleTimeString()})
+                      <button onClick={() => handleFetchTrends(true)} className="ml-1 text-indigo-500 hover:text-indigo-700 underline">強制刷新</button>
+                    </span>
+                  )}
+                  <button 
+                    onClick={() => handleFetchTrends()}
+                    disabled={trendLoading}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                  >
+                    {trendLoading ? '更新中...' : '刷新資訊'}
+                  </button>
+                </div>
               </div>
               <StockTable 
                 stocks={trendStocks} 
-                loading={trendLoading} 
+                loading={trendLoading && trendStocks.length === 0} 
+                now={now}
               />
             </section>
 
@@ -389,16 +760,15 @@ const App: React.FC = () => {
                 <div className="flex flex-col md:flex-row gap-4 mb-6">
                   <div className="flex-grow">
                     <label className="block text-sm font-medium text-slate-700 mb-1">
-                      輸入股票代號 (逗號分隔)
+                      輸入股票代號或名稱 (逗號分隔，海外標的請加交易所後綴)
                     </label>
                     <div className="flex gap-2">
-                       <input
-                        type="text"
+                      <SymbolSearchInput
                         value={inputSymbol}
-                        onChange={(e) => setInputSymbol(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && handleAddSymbol()}
-                        placeholder="例如: 2330, 0050, 2834, 3042"
-                        className="flex-grow p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none uppercase"
+                        securities={securities}
+                        onChange={setInputSymbol}
+                        onSubmit={handleAddSymbol}
+                        placeholder="例如: 2330, 台積電, 0050, AAPL.US, 0700.HK"
                       />
                       <button 
                         onClick={handleAddSymbol}
@@ -420,7 +790,7 @@ const App: React.FC = () => {
                     </button>
                     
                     <button 
-                      onClick={handleAnalyzePortfolio}
+                      onClick={() => handleAnalyzePortfolio(hasPendingSymbols ? pendingSymbols : mySymbols)}
                       disabled={portfolioLoading || mySymbols.length === 0}
                       className={`w-full md:w-auto px-6 py-2 text-white rounded-lg font-medium shadow-sm transition-all flex items-center justify-center h-[42px] ${
                         hasPendingSymbols 
@@ -436,13 +806,73 @@ const App: React.FC = () => {
                       ) : (
                         <>
                           <Search className="w-4 h-4 mr-2" />
-                          {hasPendingSymbols ? '更新所有報價' : '開始分析'}
+                          {hasPendingSymbols ? `分析未更新代碼 (${pendingSymbols.length})` : '開始分析'}
                         </>
                       )}
                     </button>
+
+                    {portfolioLoading && (
+                      <button
+                        onClick={() => portfolioAbort.current?.abort()}
+                        className="w-full md:w-auto px-4 py-2 bg-white border border-rose-300 text-rose-600 rounded-lg hover:bg-rose-50 font-medium shadow-sm transition-colors flex items-center justify-center h-[42px]"
+                      >
+                        <X className="w-4 h-4 mr-2" />
+                        取消
+                      </button>
+                    )}
                   </div>
                 </div>
 
+                <div className="mb-6 flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                  <Database className="w-4 h-4 text-slate-400" />
+                  <span>行情資料源</span>
+                  <select
+                    value={marketDataProviderId}
+                    onChange={(e) => handleProviderChange(e.target.value)}
+                    className="p-1 border border-slate-300 rounded text-xs focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+                  >
+                    {MARKET_DATA_PROVIDER_OPTIONS.map(opt => (
+                      <option key={opt.id} value={opt.id}>{opt.label}</option>
+                    ))}
+                  </select>
+                  {marketDataProviderId === 'fixture' && (
+                    <label className="inline-flex items-center px-2 py-1 border border-slate-300 rounded cursor-pointer hover:bg-slate-50">
+                      <Upload className="w-3 h-3 mr-1" /> 匯入樣本 (JSON/CSV)
+                      <input
+                        type="file"
+                        accept=".json,.csv,application/json,text/csv"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) handleImportFixtures(file);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                  )}
+                  <span className="ml-4">證券主檔 {securities.length} 筆</span>
+                  <label className="inline-flex items-center px-2 py-1 border border-slate-300 rounded cursor-pointer hover:bg-slate-50">
+                    <Upload className="w-3 h-3 mr-1" /> 匯入清單 (JSON/CSV)
+                    <input
+                      type="file"
+                      accept=".json,.csv,application/json,text/csv"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) handleImportSecurities(file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <button
+                    onClick={handleRefreshSecurities}
+                    disabled={refreshingSecurities}
+                    className="inline-flex items-center px-2 py-1 border border-slate-300 rounded hover:bg-slate-50 disabled:opacity-50"
+                  >
+                    <RefreshCw className={`w-3 h-3 mr-1 ${refreshingSecurities ? 'animate-spin' : ''}`} /> 從證交所更新
+                  </button>
+                </div>
+
                 {mySymbols.length > 0 && (
                   <div className="mb-6 flex flex-wrap gap-2 p-4 bg-slate-50 rounded-lg border border-slate-100">
                     <div className="w-full text-xs text-slate-400 mb-2">已儲存的觀察名單 (點擊右上角「開始分析」取得報價)：</div>
@@ -464,6 +894,26 @@ const App: React.FC = () => {
                   </div>
                 )}
                 
+                {analysisFailures.length > 0 && (
+                  <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800 space-y-1">
+                    <div className="font-bold flex items-center">
+                      <AlertTriangle className="w-4 h-4 mr-1" /> 以下代碼未取得有效分析 (保留先前資料)：
+                    </div>
+                    {analysisFailures.map(f => (
+                      <div key={f.symbol} className="flex items-center gap-2">
+                        <span><span className="font-mono font-bold">{f.symbol}</span>：{f.reason}</span>
+                        <button
+                          onClick={() => handleAnalyzePortfolio([f.symbol], true)}
+                          disabled={portfolioLoading}
+                          className="px-2 py-0.5 bg-white border border-amber-300 rounded text-amber-700 hover:bg-amber-100 flex items-center disabled:opacity-50"
+                        >
+                          <RefreshCw className="w-3 h-3 mr-1" /> 重試
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {portfolioStocks.length === 0 && mySymbols.length > 0 && !portfolioLoading && (
                   <div className="text-center py-10 bg-slate-50 rounded-lg border border-dashed border-slate-300">
                      <div className="mx-auto w-12 h-12 bg-white rounded-full flex items-center justify-center shadow-sm mb-3">
@@ -472,7 +922,7 @@ const App: React.FC = () => {
                      <h3 className="text-slate-900 font-medium">已讀取到您的觀察名單</h3>
                      <p className="text-slate-500 text-sm mt-1 mb-4">點擊上方的「開始分析」或「更新所有報價」來獲取最新股價與 AI 建議。</p>
                      <button 
-                       onClick={handleAnalyzePortfolio}
+                       onClick={() => handleAnalyzePortfolio()}
                        className="text-sm text-indigo-600 font-medium hover:text-indigo-800 underline"
                      >
                        立即更新
@@ -480,14 +930,98 @@ const App: React.FC = () => {
                   </div>
                 )}
 
+                {portfolioCachedAt && !portfolioLoading && (
+                  <div className="mb-4 text-xs text-slate-400 text-right">
+                    分析結果取自快取 ({new Date(portfolioCachedAt).toLocaleTimeString()})，同一交易時段內不重複呼叫 AI
+                    <button onClick={() => handleAnalyzePortfolio(mySymbols, true)} className="ml-2 text-indigo-500 hover:text-indigo-700 underline">強制重新分析</button>
+                  </div>
+                )}
+
+                {outdatedStocks.length > 0 && !portfolioLoading && (
+                  <div className="mb-4 p-3 bg-sky-50 border border-sky-200 rounded-lg text-xs text-sky-800 flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center">
+                      <RefreshCw className="w-4 h-4 mr-2 flex-shrink-0" />
+                      <span>
+                        {outdatedStocks.length} 檔報價不是最新
+                        （{outdatedStocks.slice(0, 5).map(s => s.symbol).join('、')}{outdatedStocks.length > 5 ? ' 等' : ''}），建議更新報價與分析。
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleAnalyzePortfolio(outdatedStocks.map(s => s.symbol), true)}
+                      className="px-3 py-1 bg-sky-600 text-white rounded hover:bg-sky-700 font-medium"
+                    >
+                      立即更新
+                    </button>
+                  </div>
+                )}
+
                 {(portfolioStocks.length > 0 || portfolioLoading) && (
                   <StockTable 
                     stocks={portfolioStocks} 
-                    loading={portfolioLoading}
+                    loading={portfolioLoading && portfolioStocks.length === 0}
+                    analyzingSymbols={analyzingSymbols}
                     showSummary={false}
-                    quantities={stockQuantities}
+                    quantities={effectiveQuantities}
                     onQuantityChange={handleQuantityChange}
+                    positions={positions}
+                    currencies={holdingCurrencies}
+                    fxRates={fxSettings.rates}
+                    baseCurrency={fxSettings.baseCurrency}
+                    onCurrencyChange={handleCurrencyChange}
+                    now={now}
+                  />
+                )}
+
+                {mySymbols.length > 0 && (
+                  <div className="mt-4">
+                    <FxPanel
+                      settings={fxSettings}
+                      exposure={portfolioExposure}
+                      onChange={setFxSettings}
+                    />
+                  </div>
+                )}
+
+                <div className="mt-6">
+                  <LedgerPanel
+                    entries={ledger}
+                    method={costBasisMethod}
+                    symbols={mySymbols}
+                    onAdd={handleAddLedgerEntry}
+                    onDelete={handleDeleteLedgerEntry}
+                    onMethodChange={handleCostBasisMethodChange}
                   />
+                </div>
+
+                {mySymbols.length > 0 && (
+                  <div className="mt-4">
+                    <DividendPanel
+                      events={dividends}
+                      ledger={ledger}
+                      positions={positions}
+                      quantities={effectiveQuantities}
+                      stocks={portfolioStocks}
+                      symbols={mySymbols}
+                      onAddEvent={handleAddDividend}
+                      onDeleteEvent={handleDeleteDividend}
+                      onRecordReceipt={handleRecordDividend}
+                    />
+                  </div>
+                )}
+
+                {mySymbols.length > 0 && (
+                  <div className="mt-4">
+                    <AlertPanel
+                      rules={alertRules}
+                      history={alertHistory}
+                      symbols={mySymbols}
+                      stocks={portfolioStocks}
+                      onAddRule={handleAddAlertRule}
+                      onToggleRule={handleToggleAlertRule}
+                      onDeleteRule={handleDeleteAlertRule}
+                      onClearHistory={handleClearAlertHistory}
+                    />
+                  </div>
                 )}
               </div>
             </section>
@@ -498,12 +1032,17 @@ const App: React.FC = () => {
           <div className="animate-fadeIn">
             <RetirementCalc 
               portfolioStocks={portfolioStocks}
-              stockQuantities={stockQuantities}
+              stockQuantities={effectiveQuantities}
               onQuantityChange={handleQuantityChange}
+              ledgerSymbols={Object.keys(positions)}
+              stockCurrencies={holdingCurrencies}
+              fxSettings={fxSettings}
             />
           </div>
         )}
       </main>
+
+      <AssistantPanel getContext={getAssistantContext} />
     </div>
   );
 };
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { AIFeature, AIProviderId, AISettings } from '../types';
+import { AI_FEATURE_LABELS, AI_PROVIDER_OPTIONS, defaultAISettings, importAIFixtures, loadAIFixtures } from '../services/aiProvider';
+import { Bot, ChevronDown, ChevronUp, Upload } from 'lucide-react';
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  onChange: (settings: AISettings) => void;
+}
+
+const FEATURES = Object.keys(AI_FEATURE_LABELS) as AIFeature[];
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ settings, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [fixtureCount, setFixtureCount] = useState(() => loadAIFixtures().length);
+  const [error, setError] = useState<string | null>(null);
+
+  const providerLabel = AI_PROVIDER_OPTIONS.find(opt => opt.id === settings.providerId)?.label;
+
+  // Model names differ per provider, so switching starts from the new provider's defaults
+  const handleProviderChange = (providerId: AIProviderId) => {
+    onChange({ ...settings, providerId, models: defaultAISettings(providerId).models });
+  };
+
+  const handleModelChange = (feature: AIFeature, model: string) => {
+    onChange({ ...settings, models: { ...settings.models, [feature]: model } });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setFixtureCount(importAIFixtures(String(reader.result || '')));
+        setError(null);
+      } catch (err) {
+        console.error("AI fixture import failed", err);
+        setError('匯入失敗，請使用 [{ "feature": "portfolio", "symbols": ["2330"], "response": "..." }] 格式的 JSON');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-50 rounded-xl"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <Bot className="w-4 h-4 mr-2 text-indigo-500" /> AI 模型設定 ({providerLabel})
+          {settings.providerId === 'fixture' && (
+            <span className="ml-2 text-[10px] px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full font-medium">
+              離線模擬，結果非真實分析
+            </span>
+          )}
+        </h3>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 animate-fadeIn text-xs">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-slate-600">
+              AI 來源
+              <select
+                value={settings.providerId}
+                onChange={(e) => handleProviderChange(e.target.value as AIProviderId)}
+                className="p-1 border border-slate-300 rounded"
+              >
+                {AI_PROVIDER_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+              </select>
+            </label>
+            {settings.providerId === 'openai-compatible' && (
+              <>
+                <label className="flex items-center gap-1 text-slate-600">
+                  伺服器網址
+                  <input
+                    type="text"
+                    value={settings.baseUrl}
+                    onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-64 p-1 border border-slate-300 rounded font-mono"
+                  />
+                </label>
+                <label className="flex items-center gap-1 text-slate-600">
+                  API Key (選填)
+                  <input
+                    type="password"
+                    value={settings.apiKey}
+                    onChange={(e) => onChange({ ...settings, apiKey: e.target.value })}
+                    className="w-40 p-1 border border-slate-300 rounded font-mono"
+                  />
+                </label>
+              </>
+            )}
+            {settings.providerId === 'fixture' && (
+              <div className="ml-auto flex items-center gap-2">
+                <span className="text-slate-400">
+                  {fixtureCount > 0 ? `已匯入 ${fixtureCount} 筆錄製回應` : '使用內建樣本回應'}
+                </span>
+                <label className="inline-flex items-center px-2 py-1 border border-slate-300 rounded cursor-pointer hover:bg-slate-50">
+                  <Upload className="w-3 h-3 mr-1" /> 匯入回應 (JSON)
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+                </label>
+              </div>
+            )}
+          </div>
+
+          {error && <div className="p-2 bg-rose-50 border border-rose-200 rounded text-rose-700">{error}</div>}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {FEATURES.map(feature => (
+              <label key={feature} className="block">
+                <span className="block text-slate-500 mb-1">{AI_FEATURE_LABELS[feature]} 模型</span>
+                <input
+                  type="text"
+                  value={settings.models[feature]}
+                  onChange={(e) => handleModelChange(feature, e.target.value)}
+                  disabled={settings.providerId === 'fixture'}
+                  className="w-full p-1 border border-slate-300 rounded font-mono disabled:bg-slate-50 disabled:text-slate-400"
+                />
+              </label>
+            ))}
+          </div>
+
+          <p className="text-slate-400">
+            {settings.providerId === 'gemini' && '使用 Google Search 查證新聞，分析附有搜尋來源。'}
+            {settings.providerId === 'openai-compatible' && '本機模型沒有網路搜尋，分析只會附上模型自行列出的來源。'}
+            {settings.providerId === 'fixture' && '不需網路與金鑰，回應固定不變；搭配「本機樣本資料」行情來源即可完全離線使用。'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AISettingsPanel;
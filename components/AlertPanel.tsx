@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { AlertRule, AlertRuleType, AlertEvent, StockAnalysis } from '../types';
+import { createAlertRule, describeAlertRule, requestNotificationPermission, notificationsSupported } from '../services/alerts';
+import { Bell, BellOff, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface AlertPanelProps {
+  rules: AlertRule[];
+  history: AlertEvent[];
+  symbols: string[];
+  stocks: StockAnalysis[];
+  onAddRule: (rule: AlertRule) => void;
+  onToggleRule: (id: string) => void;
+  onDeleteRule: (id: string) => void;
+  onClearHistory: () => void;
+}
+
+const TYPE_LABELS: Record<AlertRuleType, string> = {
+  PRICE_CROSS: '價格穿越',
+  PERCENT_MOVE: '漲跌幅',
+  NEAR_52W: '接近 52 週高/低',
+  RECOMMENDATION_CHANGE: '評級改變',
+};
+
+const AlertPanel: React.FC<AlertPanelProps> = ({
+  rules,
+  history,
+  symbols,
+  stocks,
+  onAddRule,
+  onToggleRule,
+  onDeleteRule,
+  onClearHistory
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [symbol, setSymbol] = useState('');
+  const [type, setType] = useState<AlertRuleType>('PRICE_CROSS');
+  const [level, setLevel] = useState<'SUGGEST_BUY' | 'SUGGEST_SELL' | 'CUSTOM'>('SUGGEST_BUY');
+  const [direction, setDirection] = useState<'ABOVE' | 'BELOW'>('BELOW');
+  const [price, setPrice] = useState('');
+  const [percent, setPercent] = useState('5');
+  const [extreme, setExtreme] = useState<'HIGH' | 'LOW'>('HIGH');
+  const [permission, setPermission] = useState<string>(() => notificationsSupported() ? Notification.permission : 'unsupported');
+
+  const targetSymbol = symbol || symbols[0] || '';
+  const stock = stocks.find(s => s.symbol === targetSymbol);
+
+  const canSubmit = !!targetSymbol && (
+    type === 'RECOMMENDATION_CHANGE' ||
+    (type === 'PRICE_CROSS' && (level !== 'CUSTOM' || Number(price) > 0)) ||
+    (type === 'PERCENT_MOVE' && Number(percent) > 0 && !!stock?.currentPrice) ||
+    (type === 'NEAR_52W' && Number(percent) >= 0)
+  );
+
+  const handleLevelChange = (value: typeof level) => {
+    setLevel(value);
+    // Sensible default side: buy levels are reached from above, sell levels from below
+    if (value === 'SUGGEST_BUY') setDirection('BELOW');
+    if (value === 'SUGGEST_SELL') setDirection('ABOVE');
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onAddRule(createAlertRule({
+      symbol: targetSymbol,
+      type,
+      level: type === 'PRICE_CROSS' ? level : undefined,
+      price: type === 'PRICE_CROSS' && level === 'CUSTOM' ? Number(price) : undefined,
+      direction: type === 'PRICE_CROSS' ? direction : undefined,
+      percent: type === 'PERCENT_MOVE' || type === 'NEAR_52W' ? Number(percent) : undefined,
+      referencePrice: type === 'PERCENT_MOVE' ? stock?.currentPrice : undefined,
+      extreme: type === 'NEAR_52W' ? extreme : undefined,
+    }));
+  };
+
+  const handleEnableNotifications = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-50 rounded-xl"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <Bell className="w-4 h-4 mr-2 text-amber-500" /> 價格提醒 ({rules.filter(r => r.enabled).length})
+          {history.length > 0 && (
+            <span className="ml-2 text-[10px] px-2 py-0.5 bg-amber-100 text-amber-800 rounded-full font-medium">
+              最近：{history[0].message}
+            </span>
+          )}
+        </h3>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 animate-fadeIn text-xs">
+          {permission !== 'granted' && (
+            <div className="flex items-center justify-between p-2 bg-slate-50 rounded border border-slate-200 text-slate-600">
+              <span className="flex items-center">
+                <BellOff className="w-3 h-3 mr-1" />
+                {permission === 'unsupported' ? '此瀏覽器不支援通知，提醒僅記錄於下方歷史。' : permission === 'denied' ? '通知已被封鎖，請於瀏覽器設定開啟。' : '尚未開啟系統通知。'}
+              </span>
+              {permission === 'default' && (
+                <button onClick={handleEnableNotifications} className="px-2 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700">
+                  啟用通知
+                </button>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-slate-500 mb-1">代碼</label>
+              <select value={targetSymbol} onChange={(e) => setSymbol(e.target.value)} className="p-2 border border-slate-300 rounded">
+                {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">條件</label>
+              <select value={type} onChange={(e) => setType(e.target.value as AlertRuleType)} className="p-2 border border-slate-300 rounded">
+                {(Object.keys(TYPE_LABELS) as AlertRuleType[]).map(t => (
+                  <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+
+            {type === 'PRICE_CROSS' && (
+              <>
+                <div>
+                  <label className="block text-slate-500 mb-1">價位</label>
+                  <select value={level} onChange={(e) => handleLevelChange(e.target.value as typeof level)} className="p-2 border border-slate-300 rounded">
+                    <option value="SUGGEST_BUY">建議買入價{stock ? ` (${stock.suggestBuyPrice})` : ''}</option>
+                    <option value="SUGGEST_SELL">建議賣出價{stock ? ` (${stock.suggestSellPrice})` : ''}</option>
+                    <option value="CUSTOM">自訂價格</option>
+                  </select>
+                </div>
+                {level === 'CUSTOM' && (
+                  <div>
+                    <label className="block text-slate-500 mb-1">價格</label>
+                    <input type="number" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className="w-24 p-2 border border-slate-300 rounded text-right font-mono" />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-slate-500 mb-1">方向</label>
+                  <select value={direction} onChange={(e) => setDirection(e.target.value as 'ABOVE' | 'BELOW')} className="p-2 border border-slate-300 rounded">
+                    <option value="BELOW">向下跌破</option>
+                    <option value="ABOVE">向上突破</option>
+                  </select>
+                </div>
+              </>
+            )}
+
+            {(type === 'PERCENT_MOVE' || type === 'NEAR_52W') && (
+              <div>
+                <label className="block text-slate-500 mb-1">{type === 'PERCENT_MOVE' ? '變動幅度 (%)' : '距離 (%)'}</label>
+                <input type="number" step="0.5" value={percent} onChange={(e) => setPercent(e.target.value)} className="w-20 p-2 border border-slate-300 rounded text-right font-mono" />
+              </div>
+            )}
+
+            {type === 'NEAR_52W' && (
+              <div>
+                <label className="block text-slate-500 mb-1">高/低點</label>
+                <select value={extreme} onChange={(e) => setExtreme(e.target.value as 'HIGH' | 'LOW')} className="p-2 border border-slate-300 rounded">
+                  <option value="HIGH">52 週高點</option>
+                  <option value="LOW">52 週低點</option>
+                </select>
+              </div>
+            )}
+
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="h-[34px] px-3 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" /> 新增提醒
+            </button>
+          </div>
+
+          {rules.length > 0 && (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded">
+              {rules.map(rule => (
+                <li key={rule.id} className="flex items-center justify-between px-3 py-2">
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="checkbox" checked={rule.enabled} onChange={() => onToggleRule(rule.id)} />
+                    <span className="font-bold">{rule.symbol}</span>
+                    <span className={rule.enabled ? 'text-slate-700' : 'text-slate-400 line-through'}>{describeAlertRule(rule)}</span>
+                  </label>
+                  <div className="flex items-center space-x-2">
+                    {rule.lastTriggeredAt && (
+                      <span className="text-[10px] text-slate-400">上次觸發 {new Date(rule.lastTriggeredAt).toLocaleString('zh-TW')}</span>
+                    )}
+                    <button onClick={() => onDeleteRule(rule.id)} className="text-slate-400 hover:text-rose-500" title="刪除">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-bold text-slate-600">提醒紀錄</span>
+              {history.length > 0 && (
+                <button onClick={onClearHistory} className="text-slate-400 hover:text-rose-500">清除</button>
+              )}
+            </div>
+            {history.length > 0 ? (
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {history.map(event => (
+                  <li key={event.id} className="flex justify-between bg-amber-50/50 px-2 py-1 rounded">
+                    <span>{event.message}</span>
+                    <span className="text-slate-400 font-mono">{new Date(event.triggeredAt).toLocaleString('zh-TW')}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-slate-400 italic">尚無觸發紀錄，每次更新報價時會自動檢查提醒條件。</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertPanel;
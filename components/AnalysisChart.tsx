@@ -1,60 +1,172 @@
-import React from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { StockAnalysis } from '../types';
+import React, { useState, useEffect } from 'react';
+import { ComposedChart, Area, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { StockAnalysis, PriceBar } from '../types';
+import { HistoryRange, HISTORY_RANGES, loadHistoryRange, syncHistory, importHistoryCsv } from '../services/priceHistory';
+import { RefreshCw, Upload } from 'lucide-react';
 
 interface AnalysisChartProps {
   data: StockAnalysis;
 }
 
+type ChartMode = 'LINE' | 'CANDLE';
+
+// Geometry recharts hands a Bar shape, plus the data point it stands for
+interface CandleProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: PriceBar;
+}
+
+// Candle drawn inside the [low, high] bar: wick spans the bar, body spans open..close.
+// Taiwan convention: red for up days, green for down days.
+const Candle: React.FC<CandleProps> = ({ x = 0, y = 0, width = 0, height, payload }) => {
+  if (!payload || height === undefined) return null;
+  const { open, close, high, low } = payload;
+  const range = high - low || 1;
+  const toY = (v: number) => y + ((high - v) / range) * height;
+  const up = close >= open;
+  const color = up ? '#e11d48' : '#059669';
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, Math.abs(toY(open) - toY(close)));
+  const cx = x + width / 2;
+
+  return (
+    <g>
+      <line x1={cx} x2={cx} y1={y} y2={y + height} stroke={color} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={bodyHeight} fill={color} />
+    </g>
+  );
+};
+
 const AnalysisChart: React.FC<AnalysisChartProps> = ({ data }) => {
-  // Simulate a curve based on high/low/current/buy/sell to visualize the "zone"
-  // Since we don't have historical data, we create a schematic representation
-  
-  const range = data.high52Week - data.low52Week;
-  const points = 20;
-  const chartData = Array.from({ length: points }, (_, i) => {
-    // Create a dummy trend that sits somewhere between low and high, ending at current
-    // This is purely schematic as requested ("示意圖")
-    const progress = i / (points - 1);
-    const wave = Math.sin(progress * Math.PI * 2) * (range * 0.2);
-    // Linear interpolation from some start point to current price
-    const estimatedValue = data.low52Week + (data.currentPrice - data.low52Week) * progress + wave;
-    
-    return {
-      name: `T-${points - i}`,
-      price: Math.max(data.low52Week, Math.min(data.high52Week, estimatedValue)),
-    };
-  });
+  const [range, setRange] = useState<HistoryRange>('3M');
+  const [mode, setMode] = useState<ChartMode>('LINE');
+  const [bars, setBars] = useState<PriceBar[]>(() => loadHistoryRange(data.symbol, '3M'));
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stored bars show at once, synced ones replace them; a response for a range or symbol
+  // that is no longer selected is dropped
+  useEffect(() => {
+    let current = true;
+    setBars(loadHistoryRange(data.symbol, range));
+    setLoading(true);
+    setError(null);
+    syncHistory(data.symbol, range)
+      .then(synced => {
+        if (current) setBars(synced);
+      })
+      .catch(e => {
+        if (!current) return;
+        console.error("Failed to load price history", e);
+        setError('無法取得歷史資料');
+        setBars(loadHistoryRange(data.symbol, range));
+      })
+      .finally(() => {
+        if (current) setLoading(false);
+      });
+    return () => { current = false; };
+  }, [data.symbol, range]);
+
+  const handleImport = async (file: File) => {
+    try {
+      importHistoryCsv(await file.text(), data.symbol);
+      setBars(loadHistoryRange(data.symbol, range));
+    } catch (e) {
+      console.error("History import failed", e);
+      alert("匯入失敗，CSV 需包含 date,open,high,low,close 欄位");
+    }
+  };
 
-  // Ensure the last point is exactly current price
-  chartData[chartData.length - 1].price = data.currentPrice;
+  const chartData = bars.map(b => ({ ...b, range: [b.low, b.high] }));
+
+  // Keep the buy/sell/current lines inside the visible range
+  const values = [
+    ...bars.map(b => b.low), ...bars.map(b => b.high),
+    data.currentPrice, data.suggestBuyPrice, data.suggestSellPrice
+  ].filter(v => v > 0);
+  const yMin = values.length > 0 ? Math.min(...values) * 0.97 : 0;
+  const yMax = values.length > 0 ? Math.max(...values) * 1.03 : 1;
 
   return (
-    <div className="h-64 w-full bg-white rounded-lg p-4 border border-slate-100">
-      <h4 className="text-sm font-semibold text-slate-500 mb-2">價格區間示意圖 (Price Action Schematic)</h4>
-      <ResponsiveContainer width="100%" height="100%">
-        <AreaChart data={chartData}>
-          <defs>
-            <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-              <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
-              <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-            </linearGradient>
-          </defs>
-          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
-          <XAxis dataKey="name" hide />
-          <YAxis domain={[data.low52Week * 0.95, data.high52Week * 1.05]} hide />
-          <Tooltip 
-            contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
-            formatter={(value: number) => [value.toFixed(2), 'Price']}
-          />
-          <ReferenceLine y={data.suggestBuyPrice} label="建議買入" stroke="#10b981" strokeDasharray="3 3" />
-          <ReferenceLine y={data.suggestSellPrice} label="建議賣出" stroke="#ef4444" strokeDasharray="3 3" />
-          <ReferenceLine y={data.currentPrice} label="現價" stroke="#3b82f6" />
-          <Area type="monotone" dataKey="price" stroke="#3b82f6" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} />
-        </AreaChart>
-      </ResponsiveContainer>
+    <div className="h-72 w-full bg-white rounded-lg p-4 border border-slate-100 flex flex-col">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-slate-500">歷史股價 (Price History)</h4>
+        <div className="flex items-center space-x-1">
+          {loading && <RefreshCw className="w-3 h-3 text-slate-400 animate-spin mr-1" />}
+          <button
+            onClick={() => setMode(mode === 'LINE' ? 'CANDLE' : 'LINE')}
+            className="px-1.5 py-0.5 text-[10px] rounded border border-slate-200 text-slate-500 hover:bg-slate-50"
+          >
+            {mode === 'LINE' ? 'K線' : '線圖'}
+          </button>
+          {HISTORY_RANGES.map(r => (
+            <button
+              key={r.id}
+              onClick={() => setRange(r.id)}
+              className={`px-1.5 py-0.5 text-[10px] rounded ${range === r.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {r.id}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {bars.length === 0 ? (
+        <div className="flex-grow flex flex-col items-center justify-center text-xs text-slate-400 space-y-2">
+          <p>{loading ? '載入歷史資料中...' : (error || '尚無歷史資料')}</p>
+          <label className="inline-flex items-center px-2 py-1 border border-slate-300 rounded cursor-pointer hover:bg-slate-50 text-slate-500">
+            <Upload className="w-3 h-3 mr-1" /> 匯入 CSV
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      ) : (
+        <div className="flex-grow">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <defs>
+                <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.1}/>
+                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="date" hide />
+              <YAxis domain={[yMin, yMax]} hide />
+              <Tooltip
+                contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+                labelFormatter={(label) => String(label)}
+                formatter={(value: number | number[], name: string) => {
+                  if (Array.isArray(value)) return [`${value[0]} - ${value[1]}`, 'Low - High'];
+                  return [value.toFixed(2), name === 'close' ? 'Close' : name];
+                }}
+              />
+              <ReferenceLine y={data.suggestBuyPrice} label="建議買入" stroke="#10b981" strokeDasharray="3 3" />
+              <ReferenceLine y={data.suggestSellPrice} label="建議賣出" stroke="#ef4444" strokeDasharray="3 3" />
+              <ReferenceLine y={data.currentPrice} label="現價" stroke="#3b82f6" />
+              {mode === 'LINE' ? (
+                <Area type="monotone" dataKey="close" stroke="#3b82f6" fillOpacity={1} fill="url(#colorPrice)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              ) : (
+                <Bar dataKey="range" shape={<Candle />} isAnimationActive={false} />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
       <div className="flex justify-between text-xs text-slate-400 mt-2 px-2">
         <span>52W Low: {data.low52Week}</span>
+        {bars.length > 0 && <span>{bars[0].date} ~ {bars[bars.length - 1].date}</span>}
         <span>52W High: {data.high52Week}</span>
       </div>
     </div>
@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AIToolCall, ChatMessage } from '../types';
+import { askAssistant } from '../services/geminiService';
+import { AssistantContext, TOOL_LABELS, clearChatHistory, createChatMessage, loadChatHistory, saveChatHistory } from '../services/assistant';
+import { Calculator, MessageCircle, RefreshCw, Send, Trash2, X } from 'lucide-react';
+
+interface AssistantPanelProps {
+  // Read when a question is sent, so answers use the latest holdings and plan
+  getContext: () => AssistantContext;
+}
+
+const SUGGESTED_QUESTIONS = [
+  '我的持股中哪一檔建議減碼？為什麼？',
+  '如果我每月多存一萬呢？',
+  '依目前的計畫，退休金缺口要怎麼補？',
+];
+
+// Arguments of a call as "key=value" pairs; a call without any ran on the current data
+const describeArgs = (args: Record<string, unknown>) => {
+  const entries = Object.entries(args);
+  return entries.length > 0 ? entries.map(([key, value]) => `${key}=${JSON.stringify(value)}`).join(', ') : '目前資料';
+};
+
+// The calculations an answer is based on, with their exact results on demand
+const ToolCallList: React.FC<{ calls: AIToolCall[] }> = ({ calls }) => (
+  <div className="mt-2 pt-2 border-t border-slate-200 space-y-1 text-[11px]">
+    <div className="font-semibold text-slate-500">計算依據</div>
+    {calls.map((call, i) => (
+      <details key={i} className="text-slate-600">
+        <summary className="cursor-pointer flex items-center">
+          <Calculator className="w-3 h-3 mr-1 text-indigo-400 flex-shrink-0" />
+          {TOOL_LABELS[call.name] || call.name}
+          <span className="ml-1 text-slate-400 truncate">({describeArgs(call.args)})</span>
+        </summary>
+        <pre className="mt-1 p-2 bg-white border border-slate-200 rounded overflow-x-auto whitespace-pre-wrap">
+          {JSON.stringify(call.result, null, 2)}
+        </pre>
+      </details>
+    ))}
+  </div>
+);
+
+const AssistantPanel: React.FC<AssistantPanelProps> = ({ getContext }) => {
+  const [open, setOpen] = useState(false);
+  const [messages, setMessages] = useState<ChatMessage[]>(loadChatHistory);
+  const [input, setInput] = useState('');
+  const [draft, setDraft] = useState(''); // the answer as it streams in
+  const [draftCalls, setDraftCalls] = useState<AIToolCall[]>([]);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abort = useRef<AbortController | null>(null);
+  const bottom = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    saveChatHistory(messages);
+  }, [messages]);
+
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ block: 'end' });
+  }, [messages, draft, open]);
+
+  const send = async (text: string) => {
+    const question = text.trim();
+    if (!question || sending) return;
+    const history = messages;
+    setMessages([...history, createChatMessage('user', question)]);
+    setInput('');
+    setDraft('');
+    setDraftCalls([]);
+    setError(null);
+    setSending(true);
+
+    const controller = new AbortController();
+    abort.current = controller;
+    let partial = '';
+    const calls: AIToolCall[] = [];
+    const reply = (content: string): ChatMessage => ({
+      ...createChatMessage('assistant', content),
+      toolCalls: calls.length > 0 ? calls : undefined,
+    });
+    try {
+      const answer = await askAssistant(question, history, getContext(), {
+        signal: controller.signal,
+        onText: (chunk) => {
+          partial += chunk;
+          setDraft(partial);
+        },
+        onToolCall: (call) => {
+          calls.push(call);
+          setDraftCalls([...calls]);
+        },
+      });
+      setMessages(prev => [...prev, reply(answer)]);
+    } catch (e) {
+      if (controller.signal.aborted) {
+        // Keep what had arrived, so the question isn't left without a reply
+        if (partial) setMessages(prev => [...prev, reply(`${partial}\n(已取消)`)]);
+      } else {
+        setError('無法取得回答，請確認 AI 設定或稍後再試。');
+      }
+    } finally {
+      abort.current = null;
+      setDraft('');
+      setDraftCalls([]);
+      setSending(false);
+    }
+  };
+
+  const handleClear = () => {
+    if (!confirm("確定要清除對話紀錄嗎？")) return;
+    clearChatHistory();
+    setMessages([]);
+    setError(null);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-6 right-6 z-40 p-4 bg-indigo-600 text-white rounded-full shadow-lg hover:bg-indigo-700 transition-colors"
+        title="投資助理"
+      >
+        <MessageCircle className="w-6 h-6" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-6 right-6 z-40 w-[calc(100vw-3rem)] max-w-md h-[32rem] max-h-[calc(100vh-6rem)] bg-white rounded-2xl border border-slate-200 shadow-2xl flex flex-col animate-fadeIn">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <MessageCircle className="w-4 h-4 mr-2 text-indigo-500" /> 投資助理
+        </h3>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={handleClear}
+            disabled={messages.length === 0 || sending}
+            className="p-1.5 text-slate-400 hover:text-slate-600 rounded hover:bg-slate-100 disabled:opacity-40"
+            title="清除對話"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setOpen(false)}
+            className="p-1.5 text-slate-400 hover:text-slate-600 rounded hover:bg-slate-100"
+            title="關閉"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3 text-sm">
+        {messages.length === 0 && !sending && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">依據您的持股分析與退休試算回答問題，例如：</p>
+            {SUGGESTED_QUESTIONS.map(q => (
+              <button
+                key={q}
+                onClick={() => send(q)}
+                className="block w-full text-left px-3 py-2 text-xs text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg hover:bg-indigo-100"
+              >
+                {q}
+              </button>
+            ))}
+          </div>
+        )}
+        {messages.map((m, i) => (
+          <div key={`${m.createdAt}-${i}`} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-3 py-2 rounded-xl whitespace-pre-wrap leading-relaxed ${
+              m.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-800'
+            }`}>
+              {m.content}
+              {m.toolCalls && <ToolCallList calls={m.toolCalls} />}
+            </div>
+          </div>
+        ))}
+        {sending && (
+          <div className="flex justify-start">
+            <div className="max-w-[85%] px-3 py-2 rounded-xl whitespace-pre-wrap leading-relaxed bg-slate-100 text-slate-800">
+              {draft || <span className="text-slate-400"><RefreshCw className="w-3 h-3 mr-1 inline animate-spin" /> {draftCalls.length > 0 ? '計算中...' : '思考中...'}</span>}
+              {draftCalls.length > 0 && <ToolCallList calls={draftCalls} />}
+            </div>
+          </div>
+        )}
+        {error && <div className="p-2 bg-rose-50 border border-rose-200 rounded text-xs text-rose-700">{error}</div>}
+        <div ref={bottom} />
+      </div>
+
+      <div className="p-3 border-t border-slate-200 flex items-center gap-2">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) send(input); }}
+          placeholder="例如：為什麼 2834 建議減碼？"
+          className="flex-1 p-2 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none"
+        />
+        {sending ? (
+          <button
+            onClick={() => abort.current?.abort()}
+            className="p-2 bg-white border border-rose-300 text-rose-600 rounded-lg hover:bg-rose-50"
+            title="取消"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={() => send(input)}
+            disabled={!input.trim()}
+            className="p-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+            title="送出"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AssistantPanel;
@@ -0,0 +1,120 @@
+import React, { useState, useMemo } from 'react';
+import { ComposedChart, Area, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from 'recharts';
+import { MoneyBasis, RetirementPlan } from '../types';
+import { simulateWithdrawals, WITHDRAWAL_STRATEGY_LABELS } from '../services/decumulation';
+import { MONEY_BASIS_LABELS, toMoneyBasis } from '../services/inflation';
+import { TrendingDown, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface DecumulationPanelProps {
+  plan: RetirementPlan;
+  startBalance: number; // total assets at retirementAge
+  moneyBasis: MoneyBasis;
+}
+
+const formatWan = (value: number) => `${Math.round(value / 10000).toLocaleString()}萬`;
+
+const DecumulationPanel: React.FC<DecumulationPanelProps> = ({ plan, startBalance, moneyBasis }) => {
+  const [showTable, setShowTable] = useState(false);
+
+  const simulation = useMemo(() => simulateWithdrawals(plan, startBalance), [plan, startBalance]);
+  const { depletionAge } = simulation;
+
+  // Each row is converted at its own age, so today's-money figures stay comparable across years
+  const rows = simulation.rows.map(row => {
+    const convert = (value: number) => toMoneyBasis(value, plan, row.age, moneyBasis);
+    return {
+      ...row,
+      startBalance: convert(row.startBalance),
+      pensionIncome: convert(row.pensionIncome),
+      plannedWithdrawal: convert(row.plannedWithdrawal),
+      withdrawal: convert(row.withdrawal),
+      growth: convert(row.growth),
+      endBalance: toMoneyBasis(row.endBalance, plan, row.age + 1, moneyBasis),
+    };
+  });
+  const totalWithdrawn = rows.reduce((sum, row) => sum + row.withdrawal, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700 flex items-center">
+          <TrendingDown className="w-4 h-4 mr-2 text-sky-500" /> 退休後提領模擬 ({WITHDRAWAL_STRATEGY_LABELS[plan.withdrawalStrategy]}，{MONEY_BASIS_LABELS[moneyBasis]})
+        </h4>
+        <span className={`text-sm font-bold px-3 py-1 rounded-full ${depletionAge === null ? 'bg-emerald-100 text-emerald-800' : 'bg-rose-100 text-rose-800'}`}>
+          {depletionAge === null ? `資產可支撐至 ${plan.lifeExpectancy} 歲以後` : `${depletionAge} 歲資產耗盡`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-center text-xs">
+        <div className="bg-slate-50 p-3 rounded-lg">
+          <div className="text-slate-500">首年提領 (月)</div>
+          <div className="font-mono font-bold text-slate-700">{Math.round((rows[0]?.plannedWithdrawal || 0) / 12).toLocaleString()}</div>
+        </div>
+        <div className="bg-slate-50 p-3 rounded-lg">
+          <div className="text-slate-500">累計提領</div>
+          <div className="font-mono font-bold text-slate-700">{formatWan(totalWithdrawn)}</div>
+        </div>
+        <div className="bg-slate-50 p-3 rounded-lg">
+          <div className="text-slate-500">{plan.lifeExpectancy} 歲剩餘資產</div>
+          <div className="font-mono font-bold text-slate-700">{formatWan(rows[rows.length - 1]?.endBalance || 0)}</div>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="age" tick={{ fontSize: 11 }} />
+            <YAxis yAxisId="balance" tickFormatter={formatWan} tick={{ fontSize: 11 }} width={70} />
+            <YAxis yAxisId="withdrawal" orientation="right" tickFormatter={formatWan} tick={{ fontSize: 11 }} width={60} />
+            <Tooltip labelFormatter={(age) => `${age} 歲`} formatter={(value: number, name: string) => [`$${Math.round(value).toLocaleString()}`, name]} />
+            <Legend verticalAlign="bottom" height={24} />
+            {depletionAge !== null && (
+              <ReferenceLine yAxisId="balance" x={depletionAge} stroke="#e11d48" strokeDasharray="4 4" label={{ value: '耗盡', fontSize: 11, fill: '#e11d48' }} />
+            )}
+            <Area yAxisId="balance" dataKey="startBalance" name="年初資產" stroke="#0ea5e9" fill="#0ea5e9" fillOpacity={0.15} isAnimationActive={false} />
+            <Bar yAxisId="withdrawal" dataKey="withdrawal" name="當年提領" stackId="income" fill="#f59e0b" isAnimationActive={false} />
+            <Bar yAxisId="withdrawal" dataKey="pensionIncome" name="勞保年金" stackId="income" fill="#10b981" isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <button onClick={() => setShowTable(!showTable)} className="text-xs text-slate-500 hover:text-slate-700 flex items-center">
+        {showTable ? <ChevronUp className="w-3 h-3 mr-1" /> : <ChevronDown className="w-3 h-3 mr-1" />} 逐年明細
+      </button>
+
+      {showTable && (
+        <div className="max-h-72 overflow-y-auto border border-slate-100 rounded animate-fadeIn">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500 sticky top-0">
+              <tr>
+                <th className="px-3 py-2 text-left">年齡</th>
+                <th className="px-3 py-2 text-right">年初資產</th>
+                <th className="px-3 py-2 text-right">勞保年金</th>
+                <th className="px-3 py-2 text-right">計畫提領</th>
+                <th className="px-3 py-2 text-right">實際提領</th>
+                <th className="px-3 py-2 text-right">投資收益</th>
+                <th className="px-3 py-2 text-right">年底資產</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-mono">
+              {rows.map(row => (
+                <tr key={row.age} className={row.withdrawal < row.plannedWithdrawal ? 'bg-rose-50 text-rose-700' : ''}>
+                  <td className="px-3 py-1.5 font-sans">{row.age}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.startBalance).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.pensionIncome).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.plannedWithdrawal).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.withdrawal).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.growth).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-right">{Math.round(row.endBalance).toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DecumulationPanel;
@@ -0,0 +1,271 @@
+import React, { useState, useMemo } from 'react';
+import { DividendEvent, LedgerEntry, PositionSummary, StockAnalysis } from '../types';
+import { buildDividendCalendar, dividendYield, expectedPayout, createDividendId } from '../services/dividends';
+import { localIsoDate } from '../services/dates';
+import { quantityBefore } from '../services/ledger';
+import { CalendarDays, Plus, Trash2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, CheckCircle } from 'lucide-react';
+
+interface DividendPanelProps {
+  events: DividendEvent[];
+  ledger: LedgerEntry[];
+  positions: Record<string, PositionSummary>;
+  quantities: Record<string, number>;
+  stocks: StockAnalysis[];
+  symbols: string[];
+  onAddEvent: (event: DividendEvent) => void;
+  onDeleteEvent: (id: string) => void;
+  onRecordReceipt: (event: DividendEvent, quantity: number, cash: number, shares: number) => void;
+}
+
+const MONTH_LABELS = ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'];
+
+const DividendPanel: React.FC<DividendPanelProps> = ({
+  events,
+  ledger,
+  positions,
+  quantities,
+  stocks,
+  symbols,
+  onAddEvent,
+  onDeleteEvent,
+  onRecordReceipt
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [symbol, setSymbol] = useState('');
+  const [exDate, setExDate] = useState('');
+  const [payDate, setPayDate] = useState('');
+  const [cashPerShare, setCashPerShare] = useState('');
+  const [stockPerShare, setStockPerShare] = useState('');
+  // Event whose receipt is being entered, with the cash typed so far
+  const [recording, setRecording] = useState<{ id: string; cash: string } | null>(null);
+
+  const today = localIsoDate();
+  const targetSymbol = symbol || symbols[0] || '';
+
+  // Entitlement comes from the ledger when the symbol is tracked there, otherwise today's quantity
+  const quantityFor = (event: DividendEvent) => {
+    if (positions[event.symbol]) return quantityBefore(ledger, event.symbol, event.exDate);
+    return quantities[event.symbol] || 0;
+  };
+
+  const calendar = useMemo(
+    () => buildDividendCalendar(events, year, quantityFor),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [events, year, ledger, positions, quantities]
+  );
+  const yearTotal = calendar.reduce((sum, month) => sum + month.reduce((s, item) => s + item.cash, 0), 0);
+
+  const holdings = symbols.filter(s => (quantities[s] || 0) > 0);
+
+  const canSubmit = !!targetSymbol && !!exDate && (Number(cashPerShare) > 0 || Number(stockPerShare) > 0);
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onAddEvent({
+      id: createDividendId(),
+      symbol: targetSymbol,
+      exDate,
+      payDate: payDate || undefined,
+      cashPerShare: Number(cashPerShare) || 0,
+      stockPerShare: Number(stockPerShare) || 0,
+    });
+    setExDate('');
+    setPayDate('');
+    setCashPerShare('');
+    setStockPerShare('');
+  };
+
+  // Starts from the expected net cash; the user corrects it to what actually arrived
+  const startRecording = (event: DividendEvent) => {
+    const expected = expectedPayout(event, quantityFor(event));
+    setRecording({ id: event.id, cash: String(expected.cash - expected.premium) });
+  };
+
+  const handleRecord = (event: DividendEvent) => {
+    if (!recording) return;
+    const quantity = quantityFor(event);
+    onRecordReceipt(event, quantity, Number(recording.cash) || 0, expectedPayout(event, quantity).shares);
+    setRecording(null);
+  };
+
+  const handleDelete = (event: DividendEvent) => {
+    const received = event.receivedCash !== undefined || event.receivedShares !== undefined;
+    if (received && !confirm(`刪除後將一併移除 ${event.symbol} 這筆股利的入帳紀錄，確定要刪除嗎？`)) return;
+    onDeleteEvent(event.id);
+  };
+
+  const sortedEvents = [...events].sort((a, b) => b.exDate.localeCompare(a.exDate));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-50 rounded-xl"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <CalendarDays className="w-4 h-4 mr-2 text-emerald-600" /> 股利行事曆
+          <span className="ml-2 text-xs font-mono font-medium text-emerald-700">{year} 年 ${Math.round(yearTotal).toLocaleString()}</span>
+        </h3>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 animate-fadeIn text-xs">
+          {/* Month-by-month calendar */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <button onClick={() => setYear(year - 1)} className="p-1 text-slate-400 hover:text-slate-600"><ChevronLeft className="w-4 h-4" /></button>
+              <span className="font-bold text-slate-700">{year} 年股利現金流</span>
+              <button onClick={() => setYear(year + 1)} className="p-1 text-slate-400 hover:text-slate-600"><ChevronRight className="w-4 h-4" /></button>
+            </div>
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+              {calendar.map((items, month) => {
+                const total = items.reduce((sum, item) => sum + item.cash, 0);
+                return (
+                  <div key={month} className={`p-2 rounded border ${items.length > 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-slate-50 border-slate-100'}`}>
+                    <div className="flex justify-between font-bold text-slate-600">
+                      <span>{MONTH_LABELS[month]}</span>
+                      <span className="font-mono text-emerald-700">{total > 0 ? Math.round(total).toLocaleString() : ''}</span>
+                    </div>
+                    {items.map(item => (
+                      <div key={item.event.id} className={`flex justify-between mt-1 ${item.received ? 'text-slate-700' : 'text-slate-400 italic'}`}>
+                        <span>{item.event.symbol}</span>
+                        <span className="font-mono">
+                          {Math.round(item.cash).toLocaleString()}{item.shares > 0 ? ` +${item.shares}股` : ''}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-[10px] text-slate-400 mt-1">實線為已入帳金額，斜體為依持股預估 (已扣二代健保)。</p>
+          </div>
+
+          {/* Yield on cost per holding */}
+          {holdings.length > 0 && (
+            <table className="min-w-full">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left">標的</th>
+                  <th className="px-3 py-2 text-right">近12月每股配息</th>
+                  <th className="px-3 py-2 text-right">殖利率 (現價)</th>
+                  <th className="px-3 py-2 text-right">成本殖利率 (近12月)</th>
+                  <th className="px-3 py-2 text-right">成本殖利率 (預估)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {holdings.map(s => {
+                  const y = dividendYield(events, s, positions[s]?.averageCost || 0);
+                  const price = stocks.find(st => st.symbol === s)?.currentPrice || 0;
+                  const pct = (v: number | null) => v === null ? '-' : `${v.toFixed(2)}%`;
+                  return (
+                    <tr key={s}>
+                      <td className="px-3 py-2 font-bold">{s}</td>
+                      <td className="px-3 py-2 text-right font-mono">{y.trailingPerShare.toFixed(2)}</td>
+                      <td className="px-3 py-2 text-right font-mono">{price > 0 ? pct((y.trailingPerShare / price) * 100) : '-'}</td>
+                      <td className="px-3 py-2 text-right font-mono text-emerald-700">{pct(y.trailingYieldOnCost)}</td>
+                      <td className="px-3 py-2 text-right font-mono text-emerald-700" title={`最新配息 × ${y.paymentsPerYear} 次/年`}>{pct(y.forwardYieldOnCost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {/* Add declared dividend */}
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-slate-500 mb-1">代碼</label>
+              <select value={targetSymbol} onChange={(e) => setSymbol(e.target.value)} className="p-2 border border-slate-300 rounded">
+                {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">除權息日</label>
+              <input type="date" value={exDate} onChange={(e) => setExDate(e.target.value)} className="p-2 border border-slate-300 rounded" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">發放日</label>
+              <input type="date" value={payDate} onChange={(e) => setPayDate(e.target.value)} className="p-2 border border-slate-300 rounded" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">現金股利 (元/股)</label>
+              <input type="number" step="0.001" value={cashPerShare} onChange={(e) => setCashPerShare(e.target.value)} className="w-24 p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">股票股利 (元/股)</label>
+              <input type="number" step="0.01" value={stockPerShare} onChange={(e) => setStockPerShare(e.target.value)} className="w-24 p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="h-[34px] px-3 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" /> 新增
+            </button>
+          </div>
+
+          {sortedEvents.length > 0 && (
+            <ul className="divide-y divide-slate-100 border border-slate-100 rounded max-h-56 overflow-y-auto">
+              {sortedEvents.map(event => {
+                const received = event.receivedCash !== undefined || event.receivedShares !== undefined;
+                const expected = recording?.id === event.id ? expectedPayout(event, quantityFor(event)) : null;
+                return (
+                  <li key={event.id} className="flex items-center justify-between px-3 py-2">
+                    <span>
+                      <span className="font-bold mr-2">{event.symbol}</span>
+                      <span className="font-mono text-slate-500">除息 {event.exDate}{event.payDate ? ` / 發放 ${event.payDate}` : ''}</span>
+                      <span className="ml-2">
+                        {event.cashPerShare > 0 && `配息 ${event.cashPerShare}`}
+                        {event.stockPerShare > 0 && ` 配股 ${event.stockPerShare}`}
+                      </span>
+                    </span>
+                    <span className="flex items-center space-x-2">
+                      {received ? (
+                        <span className="text-emerald-600 flex items-center">
+                          <CheckCircle className="w-3 h-3 mr-1" /> 已入帳 {event.receivedCash?.toLocaleString()}{event.receivedShares ? ` +${event.receivedShares}股` : ''}
+                        </span>
+                      ) : recording && expected ? (
+                        <span className="flex items-center space-x-1">
+                          <span className="text-slate-500" title={`預估 ${expected.cash.toLocaleString()}，扣二代健保 ${expected.premium.toLocaleString()}`}>實際入帳</span>
+                          <input
+                            type="number"
+                            value={recording.cash}
+                            onChange={(e) => setRecording({ ...recording, cash: e.target.value })}
+                            onKeyDown={(e) => { if (e.key === 'Enter') handleRecord(event); }}
+                            className="w-24 p-1 border border-slate-300 rounded text-right font-mono"
+                            autoFocus
+                          />
+                          {expected.shares > 0 && <span className="text-slate-500">+{expected.shares}股</span>}
+                          <button onClick={() => handleRecord(event)} className="px-2 py-0.5 bg-emerald-600 text-white rounded hover:bg-emerald-700">
+                            確認
+                          </button>
+                          <button onClick={() => setRecording(null)} className="px-2 py-0.5 border border-slate-300 text-slate-500 rounded hover:bg-slate-50">
+                            取消
+                          </button>
+                        </span>
+                      ) : event.exDate <= today ? (
+                        <button onClick={() => startRecording(event)} className="px-2 py-0.5 border border-emerald-300 text-emerald-700 rounded hover:bg-emerald-50">
+                          記錄入帳
+                        </button>
+                      ) : (
+                        <span className="text-slate-400">待除息</span>
+                      )}
+                      <button onClick={() => handleDelete(event)} className="text-slate-400 hover:text-rose-500" title="刪除">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DividendPanel;
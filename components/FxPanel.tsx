@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Currency, FxSettings } from '../types';
+import { CURRENCIES, CURRENCY_LABELS, FX_SOURCE_LABELS, FxExposureRow, formatMoney, getFxProvider, normalizeRates, parseFxFile } from '../services/fx';
+import { localIsoDate } from '../services/dates';
+import { Globe, ChevronDown, ChevronUp, RefreshCw, Upload } from 'lucide-react';
+
+interface FxPanelProps {
+  settings: FxSettings;
+  exposure: FxExposureRow[];
+  onChange: (settings: FxSettings) => void;
+}
+
+const FxPanel: React.FC<FxPanelProps> = ({ settings, exposure, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { baseCurrency, rates } = settings;
+  const foreignShare = exposure.filter(r => r.currency !== baseCurrency).reduce((sum, r) => sum + r.share, 0);
+
+  const handleRateChange = (currency: Currency, value: number) => {
+    onChange({ ...settings, source: 'MANUAL', rates: normalizeRates({ ...rates, [currency]: value }), asOf: localIsoDate() });
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = parseFxFile(String(reader.result || ''));
+        onChange({ ...settings, source: 'FILE', rates: normalizeRates({ ...rates, ...imported }), asOf: localIsoDate() });
+        setError(null);
+      } catch (err) {
+        console.error("FX import failed", err);
+        setError('匯入失敗，請使用「幣別,匯率」每行一筆的 CSV 或 JSON 格式');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleFetch = async () => {
+    setFetching(true);
+    setError(null);
+    try {
+      const fetched = await getFxProvider().getRates();
+      onChange({ ...settings, source: 'PROVIDER', rates: normalizeRates({ ...rates, ...fetched.rates }), asOf: fetched.asOf });
+    } catch (err) {
+      console.error("FX fetch failed", err);
+      setError('無法取得線上匯率，沿用目前匯率');
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-50 rounded-xl"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <Globe className="w-4 h-4 mr-2 text-sky-500" /> 幣別與匯率 (計價：{CURRENCY_LABELS[baseCurrency]})
+          {foreignShare > 0 && (
+            <span className="ml-2 text-[10px] px-2 py-0.5 bg-sky-100 text-sky-800 rounded-full font-medium">
+              外幣曝險 {(foreignShare * 100).toFixed(1)}%
+            </span>
+          )}
+        </h3>
+        {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 animate-fadeIn text-xs">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1 text-slate-600">
+              計價幣別
+              <select
+                value={baseCurrency}
+                onChange={(e) => onChange({ ...settings, baseCurrency: e.target.value as Currency })}
+                className="p-1 border border-slate-300 rounded"
+              >
+                {CURRENCIES.map(c => <option key={c} value={c}>{c} {CURRENCY_LABELS[c]}</option>)}
+              </select>
+            </label>
+            <span className="text-slate-400">
+              匯率來源：{FX_SOURCE_LABELS[settings.source]}{settings.asOf && ` (${settings.asOf})`}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              <label className="inline-flex items-center px-2 py-1 border border-slate-300 rounded cursor-pointer hover:bg-slate-50">
+                <Upload className="w-3 h-3 mr-1" /> 匯入 (CSV/JSON)
+                <input type="file" accept=".csv,.json,.txt" className="hidden" onChange={handleFile} />
+              </label>
+              <button
+                onClick={handleFetch}
+                disabled={fetching}
+                className="inline-flex items-center px-2 py-1 bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-3 h-3 mr-1 ${fetching ? 'animate-spin' : ''}`} /> 線上更新
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="p-2 bg-rose-50 border border-rose-200 rounded text-rose-700">{error}</div>}
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {CURRENCIES.filter(c => c !== 'TWD').map(c => (
+              <label key={c} className="block">
+                <span className="block text-slate-500 mb-1">{c}/TWD</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={rates[c]}
+                  onChange={(e) => handleRateChange(c, Number(e.target.value))}
+                  className="w-full p-1 border border-slate-300 rounded text-right font-mono"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <div className="font-bold text-slate-600 mb-2">匯率曝險</div>
+            {exposure.length > 0 ? (
+              <table className="min-w-full">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left">幣別</th>
+                    <th className="px-3 py-2 text-right">原幣金額</th>
+                    <th className="px-3 py-2 text-right">換算 {baseCurrency}</th>
+                    <th className="px-3 py-2 text-right">占比</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 font-mono">
+                  {exposure.map(row => (
+                    <tr key={row.currency}>
+                      <td className="px-3 py-1.5 font-sans text-slate-600">{row.currency} {CURRENCY_LABELS[row.currency]}</td>
+                      <td className="px-3 py-1.5 text-right">{formatMoney(row.amount, row.currency)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatMoney(row.baseAmount, baseCurrency)}</td>
+                      <td className="px-3 py-1.5 text-right">{(row.share * 100).toFixed(1)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-slate-400 italic">尚無持股市值</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FxPanel;
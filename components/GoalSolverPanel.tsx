@@ -0,0 +1,97 @@
+import React, { useState, useMemo } from 'react';
+import { RetirementPlan } from '../types';
+import { SolverField, SolverResult, SOLVER_FIELD_LABELS, sensitivityTable, solveFor } from '../services/goalSolver';
+import { Target, Check } from 'lucide-react';
+
+interface GoalSolverPanelProps {
+  plan: RetirementPlan;
+  onApply: (field: SolverField, value: number) => void;
+}
+
+const formatValue = (field: SolverField, value: number) => {
+  if (field === 'expectedAnnualReturn') return `${value.toFixed(2)}%`;
+  if (field === 'retirementAge') return `${value} 歲`;
+  return `$${Math.ceil(value).toLocaleString()}`;
+};
+
+const describe = (result: SolverResult) => {
+  if (result.value === null) return '無法達成';
+  return formatValue(result.field, result.value) + (result.alreadyMet ? ' (已達成)' : '');
+};
+
+const GoalSolverPanel: React.FC<GoalSolverPanelProps> = ({ plan, onApply }) => {
+  const [field, setField] = useState<SolverField>('monthlySavings');
+
+  const solution = useMemo(() => solveFor(plan, field), [plan, field]);
+  const sensitivity = useMemo(() => sensitivityTable(plan, field), [plan, field]);
+
+  // Rounded the way it would be typed in, so applying it still meets the goal
+  const applicableValue = (value: number) => {
+    if (field === 'expectedAnnualReturn') return Math.ceil(value * 100) / 100;
+    return Math.ceil(value);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700 flex items-center">
+          <Target className="w-4 h-4 mr-2 text-rose-500" /> 目標反推
+        </h4>
+        <select
+          value={field}
+          onChange={(e) => setField(e.target.value as SolverField)}
+          className="text-xs p-1.5 border border-slate-300 rounded"
+        >
+          {(Object.keys(SOLVER_FIELD_LABELS) as SolverField[]).map(key => (
+            <option key={key} value={key}>求 {SOLVER_FIELD_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between bg-slate-50 p-4 rounded-lg">
+        <div>
+          <div className="text-xs text-slate-500">剛好達成目標月領所需{SOLVER_FIELD_LABELS[field]}</div>
+          <div className={`text-2xl font-bold font-mono ${solution.value === null ? 'text-rose-600' : 'text-slate-800'}`}>
+            {describe(solution)}
+          </div>
+          <div className="text-xs text-slate-400 mt-1">目前設定: {formatValue(field, plan[field])}</div>
+        </div>
+        {/* An already-met goal only says the current setting is enough, there is nothing to adopt */}
+        {solution.value !== null && !solution.alreadyMet && applicableValue(solution.value) !== plan[field] && (
+          <button
+            onClick={() => onApply(field, applicableValue(solution.value!))}
+            className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 flex items-center"
+          >
+            <Check className="w-3 h-3 mr-1" /> 套用
+          </button>
+        )}
+      </div>
+
+      <div>
+        <div className="text-xs font-bold text-slate-600 mb-2">敏感度分析：其他條件變動時，所需{SOLVER_FIELD_LABELS[field]}</div>
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left">變動項目</th>
+              <th className="px-3 py-2 text-right">調降</th>
+              <th className="px-3 py-2 text-right">基準</th>
+              <th className="px-3 py-2 text-right">調升</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 font-mono">
+            {sensitivity.map(row => (
+              <tr key={row.input.field}>
+                <td className="px-3 py-1.5 font-sans text-slate-600">{row.input.label}</td>
+                <td className="px-3 py-1.5 text-right">{describe(row.low)}</td>
+                <td className="px-3 py-1.5 text-right text-slate-400">{describe(solution)}</td>
+                <td className="px-3 py-1.5 text-right">{describe(row.high)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default GoalSolverPanel;
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { TechnicalIndicators } from '../types';
+import { computeIndicators, indicatorSignals } from '../services/indicators';
+import { loadHistoryRange, syncHistory } from '../services/priceHistory';
+import { Activity } from 'lucide-react';
+
+interface IndicatorPanelProps {
+  symbol: string;
+}
+
+const IndicatorPanel: React.FC<IndicatorPanelProps> = ({ symbol }) => {
+  const [indicators, setIndicators] = useState<TechnicalIndicators | null>(() => computeIndicators(loadHistoryRange(symbol, '1Y')));
+
+  // MA60 and MACD need a few months of bars, so indicators always use the 1Y window
+  useEffect(() => {
+    let cancelled = false;
+    syncHistory(symbol, '1Y')
+      .then(bars => { if (!cancelled) setIndicators(computeIndicators(bars)); })
+      .catch(e => console.warn(`Indicator history unavailable for ${symbol}`, e));
+    return () => { cancelled = true; };
+  }, [symbol]);
+
+  if (!indicators) {
+    return (
+      <div className="bg-white p-4 rounded-lg border border-slate-200 text-xs text-slate-400 italic">
+        尚無歷史資料，無法計算技術指標。
+      </div>
+    );
+  }
+
+  const fmt = (v: number | null | undefined) => (v === null || v === undefined ? '-' : v.toLocaleString());
+  const signals = indicatorSignals(indicators);
+
+  const cells: { label: string; value: string }[] = [
+    { label: 'MA5', value: fmt(indicators.ma5) },
+    { label: 'MA20', value: fmt(indicators.ma20) },
+    { label: 'MA60', value: fmt(indicators.ma60) },
+    { label: 'RSI(14)', value: fmt(indicators.rsi14) },
+    { label: 'K / D', value: indicators.kd ? `${indicators.kd.k} / ${indicators.kd.d}` : '-' },
+    { label: 'MACD OSC', value: fmt(indicators.macd?.histogram) },
+    { label: '布林上/下', value: indicators.bollinger ? `${indicators.bollinger.upper} / ${indicators.bollinger.lower}` : '-' },
+    { label: '均量 5/20', value: `${fmt(indicators.volumeMa5)} / ${fmt(indicators.volumeMa20)}` },
+  ];
+
+  return (
+    <div>
+      <h4 className="text-sm font-bold text-slate-900 uppercase tracking-wide mb-2 flex items-center">
+        <Activity className="w-4 h-4 mr-1 text-indigo-500" /> 技術指標
+        <span className="ml-2 text-[10px] font-normal text-slate-400 normal-case">{indicators.asOf}</span>
+      </h4>
+      <div className="bg-white p-3 rounded-lg border border-slate-200 space-y-2">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+          {cells.map(cell => (
+            <div key={cell.label} className="flex justify-between bg-slate-50 px-2 py-1 rounded">
+              <span className="text-slate-500">{cell.label}</span>
+              <span className="font-mono font-medium text-slate-800">{cell.value}</span>
+            </div>
+          ))}
+        </div>
+        {signals.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {signals.map(signal => (
+              <span key={signal} className="text-[10px] px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-full">{signal}</span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IndicatorPanel;
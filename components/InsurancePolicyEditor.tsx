@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { Currency, FxRates, InsurancePolicy } from '../types';
+import { paidUpPolicy, parseCashValueTable, policyValueAt, premiumsPaidBy, rateForYear } from '../services/insurance';
+import { CURRENCIES, CURRENCY_LABELS, toTwd } from '../services/fx';
+import { ShieldCheck, Plus, Trash2, ChevronDown, ChevronUp, Upload } from 'lucide-react';
+
+interface InsurancePolicyEditorProps {
+  policies: InsurancePolicy[];
+  fxRates: FxRates;
+  retireYear: number;
+  onChange: (policies: InsurancePolicy[]) => void;
+}
+
+const inputClass = "w-full rounded-md border-amber-300 shadow-sm focus:border-amber-500 focus:ring-amber-500 border p-2 text-right text-sm bg-white";
+
+const InsurancePolicyEditor: React.FC<InsurancePolicyEditorProps> = ({
+  policies,
+  fxRates,
+  retireYear,
+  onChange
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tableText, setTableText] = useState('');
+
+  const policyTwd = (policy: InsurancePolicy, value: number) => toTwd(value, policy.currency, fxRates);
+  const totalAtRetirement = policies.reduce((sum, p) => sum + policyTwd(p, policyValueAt(p, retireYear)), 0);
+
+  const updatePolicy = (id: string, patch: Partial<InsurancePolicy>) => {
+    onChange(policies.map(p => p.id === id ? { ...p, ...patch } : p));
+  };
+
+  const handleAdd = () => {
+    const year = new Date().getFullYear();
+    const policy: InsurancePolicy = {
+      ...paidUpPolicy(0, 2, year),
+      name: `保單 ${policies.length + 1}`,
+      premiumYears: 6,
+    };
+    onChange([...policies, policy]);
+    setEditingId(policy.id);
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(policies.filter(p => p.id !== id));
+    if (editingId === id) setEditingId(null);
+  };
+
+  const handleImportTable = (policy: InsurancePolicy, text: string) => {
+    const rows = parseCashValueTable(text);
+    if (rows.length === 0) {
+      alert('無法解析解約金表，請使用「保單年度,解約金」每行一筆的格式。');
+      return;
+    }
+    updatePolicy(policy.id, { valuation: 'TABLE', cashValues: rows });
+    setTableText('');
+  };
+
+  const handleTableFile = (policy: InsurancePolicy, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => handleImportTable(policy, String(reader.result || ''));
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const updateRate = (policy: InsurancePolicy, index: number, field: 'fromYear' | 'rate', value: number) => {
+    updatePolicy(policy.id, {
+      declaredRates: policy.declaredRates.map((r, i) => i === index ? { ...r, [field]: value } : r)
+    });
+  };
+
+  return (
+    <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 space-y-3">
+      <div className="flex items-center justify-between border-b border-amber-200/60 pb-2">
+         <label className="text-sm font-bold text-amber-800 flex items-center">
+           <ShieldCheck className="w-4 h-4 mr-1" /> 儲蓄險保單 ({policies.length})
+         </label>
+         <span className="text-amber-700 font-mono text-sm font-bold" title={`${retireYear} 年保單價值 (台幣)`}>
+           ${Math.round(totalAtRetirement).toLocaleString()}
+         </span>
+      </div>
+
+      {policies.map(policy => {
+        const editing = editingId === policy.id;
+        const value = policyValueAt(policy, retireYear);
+        return (
+          <div key={policy.id} className="bg-white rounded border border-amber-200 text-xs">
+            <div className="flex items-center justify-between p-2 cursor-pointer hover:bg-amber-50/50" onClick={() => setEditingId(editing ? null : policy.id)}>
+              <div>
+                <div className="font-bold text-amber-900">{policy.name} {policy.currency !== 'TWD' && <span className="text-[10px] bg-amber-100 px-1 rounded">{policy.currency}</span>}</div>
+                <div className="text-amber-600">
+                  {policy.premiumYears > 1 ? `年繳 ${policy.annualPremium.toLocaleString()} × ${policy.premiumYears} 年` : `躉繳 ${policy.annualPremium.toLocaleString()}`}
+                  {' · '}{policy.valuation === 'TABLE' ? `解約金表 ${policy.cashValues.length} 筆` : `宣告利率 ${rateForYear(policy, new Date().getFullYear())}%`}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className="font-mono text-amber-700">{Math.round(policyTwd(policy, value)).toLocaleString()}</span>
+                {editing ? <ChevronUp className="w-3 h-3 text-amber-400" /> : <ChevronDown className="w-3 h-3 text-amber-400" />}
+              </div>
+            </div>
+
+            {editing && (
+              <div className="p-2 pt-0 space-y-2 animate-fadeIn">
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-amber-700 mb-1">名稱</label>
+                    <input value={policy.name} onChange={(e) => updatePolicy(policy.id, { name: e.target.value })} className={inputClass.replace('text-right', 'text-left')} />
+                  </div>
+                  <div>
+                    <label className="block text-amber-700 mb-1">幣別</label>
+                    <select value={policy.currency} onChange={(e) => updatePolicy(policy.id, { currency: e.target.value as Currency })} className={inputClass}>
+                      {CURRENCIES.map(c => <option key={c} value={c}>{CURRENCY_LABELS[c]}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-amber-700 mb-1">年繳保費</label>
+                    <input type="number" value={policy.annualPremium} onChange={(e) => updatePolicy(policy.id, { annualPremium: Number(e.target.value) })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-amber-700 mb-1">繳費年期</label>
+                    <input type="number" min="1" value={policy.premiumYears} onChange={(e) => updatePolicy(policy.id, { premiumYears: Math.max(1, Number(e.target.value)) })} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-amber-700 mb-1">首期繳費年 (西元)</label>
+                    <input type="number" value={policy.premiumStartYear} onChange={(e) => updatePolicy(policy.id, { premiumStartYear: Number(e.target.value) })} className={inputClass} />
+                    <div className="text-[10px] text-amber-600 text-right mt-0.5">民國 {policy.premiumStartYear - 1911} 年</div>
+                  </div>
+                  <div>
+                    <label className="block text-amber-700 mb-1">估值方式</label>
+                    <select value={policy.valuation} onChange={(e) => updatePolicy(policy.id, { valuation: e.target.value as InsurancePolicy['valuation'] })} className={inputClass}>
+                      <option value="RATE">宣告利率</option>
+                      <option value="TABLE">解約金表</option>
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between text-amber-700 mb-1">
+                    <span>{policy.valuation === 'TABLE' ? '宣告利率 (表格結束後續算)' : '宣告利率變動'}</span>
+                    <button
+                      onClick={() => updatePolicy(policy.id, { declaredRates: [...policy.declaredRates, { fromYear: new Date().getFullYear(), rate: rateForYear(policy, new Date().getFullYear()) }] })}
+                      className="text-amber-600 hover:text-amber-800 flex items-center"
+                    >
+                      <Plus className="w-3 h-3 mr-0.5" /> 新增
+                    </button>
+                  </div>
+                  {policy.declaredRates.map((r, index) => (
+                    <div key={index} className="flex items-center gap-2 mb-1">
+                      <input type="number" value={r.fromYear} onChange={(e) => updateRate(policy, index, 'fromYear', Number(e.target.value))} className={inputClass} />
+                      <span className="text-amber-600 whitespace-nowrap">年起</span>
+                      <input type="number" step="0.05" value={r.rate} onChange={(e) => updateRate(policy, index, 'rate', Number(e.target.value))} className={inputClass} />
+                      <span className="text-amber-600">%</span>
+                      {policy.declaredRates.length > 1 && (
+                        <button onClick={() => updatePolicy(policy.id, { declaredRates: policy.declaredRates.filter((_, i) => i !== index) })} className="text-slate-400 hover:text-rose-500">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {policy.valuation === 'TABLE' && (
+                  <div className="space-y-1">
+                    <textarea
+                      value={tableText}
+                      onChange={(e) => setTableText(e.target.value)}
+                      placeholder={'保單年度,解約金\n1,52000\n2,105000'}
+                      rows={3}
+                      className="w-full rounded-md border-amber-300 border p-2 font-mono text-xs"
+                    />
+                    <div className="flex items-center justify-between">
+                      <label className="text-amber-600 hover:text-amber-800 cursor-pointer flex items-center">
+                        <Upload className="w-3 h-3 mr-1" /> 匯入 CSV
+                        <input type="file" accept=".csv,.txt" onChange={(e) => handleTableFile(policy, e)} className="hidden" />
+                      </label>
+                      <button onClick={() => handleImportTable(policy, tableText)} disabled={!tableText.trim()} className="px-2 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50">
+                        套用貼上內容
+                      </button>
+                    </div>
+                    {policy.cashValues.length > 0 && (
+                      <div className="text-amber-600">
+                        第 {policy.cashValues[0].policyYear} ~ {policy.cashValues[policy.cashValues.length - 1].policyYear} 保單年度，
+                        最後一筆 {policy.cashValues[policy.cashValues.length - 1].value.toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between pt-1 border-t border-amber-100 text-amber-700">
+                  <span>
+                    已繳 {premiumsPaidBy(policy, new Date().getFullYear()).toLocaleString()}，{retireYear} 年價值 {Math.round(value).toLocaleString()}{policy.currency !== 'TWD' ? ` ${policy.currency}` : ''}
+                  </span>
+                  <button onClick={() => handleDelete(policy.id)} className="text-slate-400 hover:text-rose-500 flex items-center">
+                    <Trash2 className="w-3 h-3 mr-0.5" /> 刪除
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between gap-2">
+        <button onClick={handleAdd} className="text-xs text-amber-700 hover:text-amber-900 flex items-center">
+          <Plus className="w-3 h-3 mr-1" /> 新增保單
+        </button>
+        {policies.some(p => p.currency !== 'TWD') && (
+          <span className="text-[10px] text-amber-600">外幣保單依匯率設定換算台幣</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InsurancePolicyEditor;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { LedgerEntry, LedgerEntryType, CostBasisMethod } from '../types';
+import { estimateBrokerageFee, estimateTransactionTax, createLedgerId, sortLedger } from '../services/ledger';
+import { localIsoDate } from '../services/dates';
+import { toSymbolKey } from '../services/exchanges';
+import { BookOpen, Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface LedgerPanelProps {
+  entries: LedgerEntry[];
+  method: CostBasisMethod;
+  symbols: string[];
+  onAdd: (entry: LedgerEntry) => void;
+  onDelete: (id: string) => void;
+  onMethodChange: (method: CostBasisMethod) => void;
+}
+
+const TYPE_LABELS: Record<LedgerEntryType, string> = {
+  BUY: '買進',
+  SELL: '賣出',
+  DIVIDEND: '現金股利',
+};
+
+const LedgerPanel: React.FC<LedgerPanelProps> = ({
+  entries,
+  method,
+  symbols,
+  onAdd,
+  onDelete,
+  onMethodChange
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [symbol, setSymbol] = useState('');
+  const [type, setType] = useState<LedgerEntryType>('BUY');
+  const [date, setDate] = useState(localIsoDate());
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [fee, setFee] = useState('');
+  const [tax, setTax] = useState('');
+  // Once the user edits fee/tax by hand, stop overwriting them with estimates
+  const [manualCosts, setManualCosts] = useState(false);
+
+  // Pre-fill Taiwan brokerage fee and transaction tax from the trade amount
+  useEffect(() => {
+    if (manualCosts) return;
+    const amount = Number(price) * Number(quantity);
+    if (!amount || type === 'DIVIDEND') {
+      setFee(type === 'DIVIDEND' ? '0' : '');
+      setTax(type === 'DIVIDEND' ? '0' : '');
+      return;
+    }
+    setFee(String(estimateBrokerageFee(amount)));
+    setTax(type === 'SELL' ? String(estimateTransactionTax(toSymbolKey(symbol), amount)) : '0');
+  }, [symbol, type, price, quantity, manualCosts]);
+
+  const canSubmit = symbol.trim() && date && Number(price) > 0 && Number(quantity) > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onAdd({
+      id: createLedgerId(),
+      symbol: toSymbolKey(symbol),
+      type,
+      date,
+      price: Number(price),
+      quantity: Number(quantity),
+      fee: Number(fee) || 0,
+      tax: Number(tax) || 0,
+    });
+    setPrice('');
+    setQuantity('');
+    setManualCosts(false);
+  };
+
+  const sorted = sortLedger(entries).reverse();
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+      <div
+        className="flex items-center justify-between p-4 cursor-pointer hover:bg-slate-50 rounded-xl"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <h3 className="text-sm font-bold text-slate-800 flex items-center">
+          <BookOpen className="w-4 h-4 mr-2 text-indigo-600" /> 交易紀錄 ({entries.length})
+        </h3>
+        <div className="flex items-center space-x-3">
+          <select
+            value={method}
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => onMethodChange(e.target.value as CostBasisMethod)}
+            className="p-1 border border-slate-300 rounded text-xs focus:ring-2 focus:ring-indigo-500 outline-none"
+            title="成本計算方式"
+          >
+            <option value="AVERAGE">平均成本法</option>
+            <option value="FIFO">先進先出 (FIFO)</option>
+          </select>
+          {expanded ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4 animate-fadeIn">
+          <div className="grid grid-cols-2 md:grid-cols-8 gap-2 items-end text-xs">
+            <div>
+              <label className="block text-slate-500 mb-1">代碼</label>
+              <input
+                list="ledger-symbols"
+                value={symbol}
+                onChange={(e) => setSymbol(e.target.value)}
+                className="w-full p-2 border border-slate-300 rounded uppercase"
+              />
+              <datalist id="ledger-symbols">
+                {symbols.map(s => <option key={s} value={s} />)}
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">類型</label>
+              <select value={type} onChange={(e) => setType(e.target.value as LedgerEntryType)} className="w-full p-2 border border-slate-300 rounded">
+                {(Object.keys(TYPE_LABELS) as LedgerEntryType[]).map(t => (
+                  <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">日期</label>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className="w-full p-2 border border-slate-300 rounded" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">{type === 'DIVIDEND' ? '每股股利' : '成交價'}</label>
+              <input type="number" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} className="w-full p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">{type === 'DIVIDEND' ? '參與股數' : '股數'}</label>
+              <input type="number" value={quantity} onChange={(e) => setQuantity(e.target.value)} className="w-full p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">手續費</label>
+              <input type="number" value={fee} onChange={(e) => { setManualCosts(true); setFee(e.target.value); }} className="w-full p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">證交稅</label>
+              <input type="number" value={tax} onChange={(e) => { setManualCosts(true); setTax(e.target.value); }} className="w-full p-2 border border-slate-300 rounded text-right font-mono" />
+            </div>
+            <button
+              onClick={handleSubmit}
+              disabled={!canSubmit}
+              className="h-[34px] px-3 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center"
+            >
+              <Plus className="w-4 h-4 mr-1" /> 新增
+            </button>
+          </div>
+
+          {sorted.length > 0 ? (
+            <div className="max-h-64 overflow-y-auto border border-slate-100 rounded">
+              <table className="min-w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">日期</th>
+                    <th className="px-3 py-2 text-left">代碼</th>
+                    <th className="px-3 py-2 text-left">類型</th>
+                    <th className="px-3 py-2 text-right">價格</th>
+                    <th className="px-3 py-2 text-right">股數</th>
+                    <th className="px-3 py-2 text-right">費用/稅</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {sorted.map(entry => (
+                    <tr key={entry.id}>
+                      <td className="px-3 py-2 font-mono">{entry.date}</td>
+                      <td className="px-3 py-2 font-bold">{entry.symbol}</td>
+                      <td className={`px-3 py-2 ${entry.type === 'BUY' ? 'text-emerald-600' : entry.type === 'SELL' ? 'text-rose-600' : 'text-amber-600'}`}>
+                        {TYPE_LABELS[entry.type]}
+                      </td>
+                      <td className="px-3 py-2 text-right font-mono">{entry.price}</td>
+                      <td className="px-3 py-2 text-right font-mono">{entry.quantity.toLocaleString()}</td>
+                      <td className="px-3 py-2 text-right font-mono text-slate-500">{entry.fee} / {entry.tax}</td>
+                      <td className="px-3 py-2 text-right">
+                        <button onClick={() => onDelete(entry.id)} className="text-slate-400 hover:text-rose-500" title="刪除">
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400 italic text-center py-2">尚無交易紀錄，新增後持有股數將自動由紀錄計算。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LedgerPanel;
@@ -0,0 +1,161 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { RetirementPlan } from '../types';
+import { MonteCarloSettings, ReturnModel, loadMonteCarloSettings, saveMonteCarloSettings, runMonteCarlo, annualReturnsFromHistory } from '../services/monteCarlo';
+import { requiredAssets } from '../services/retirementModel';
+import { loadHistory } from '../services/priceHistory';
+import { Shuffle } from 'lucide-react';
+
+interface MonteCarloPanelProps {
+  plan: RetirementPlan;
+  symbols: string[]; // candidates for bootstrapping returns from stored price history
+}
+
+const formatWan = (value: number) => `${Math.round(value / 10000).toLocaleString()}萬`;
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ plan, symbols }) => {
+  const [settings, setSettings] = useState<MonteCarloSettings>(loadMonteCarloSettings);
+  const [returnsText, setReturnsText] = useState(settings.historicalReturns.join(', '));
+  const [historySymbol, setHistorySymbol] = useState(symbols[0] || '');
+
+  useEffect(() => {
+    saveMonteCarloSettings(settings);
+  }, [settings]);
+
+  const result = useMemo(() => runMonteCarlo(plan, settings), [plan, settings]);
+  const target = requiredAssets(plan);
+
+  const update = (patch: Partial<MonteCarloSettings>) => setSettings(prev => ({ ...prev, ...patch }));
+
+  const handleReturnsChange = (text: string) => {
+    setReturnsText(text);
+    const values = text.split(/[,\s]+/).map(Number).filter(v => Number.isFinite(v) && v > -100);
+    update({ historicalReturns: values });
+  };
+
+  const handleLoadFromHistory = () => {
+    const returns = annualReturnsFromHistory(loadHistory(historySymbol));
+    if (returns.length === 0) {
+      alert(`${historySymbol} 的歷史股價不足一個完整年度，請先在個股圖表載入 5Y 資料或匯入 CSV。`);
+      return;
+    }
+    handleReturnsChange(returns.join(', '));
+  };
+
+  const chartData = result ? result.fan.map(p => ({ ...p, band: [p.p10, p.p90] })) : [];
+  const successPct = result ? result.successProbability * 100 : 0;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-bold text-slate-700 flex items-center">
+          <Shuffle className="w-4 h-4 mr-2 text-violet-500" /> 蒙地卡羅模擬 ({settings.runs.toLocaleString()} 次)
+        </h4>
+        {result && (
+          <span className={`text-sm font-bold px-3 py-1 rounded-full ${successPct >= 80 ? 'bg-emerald-100 text-emerald-800' : successPct >= 50 ? 'bg-amber-100 text-amber-800' : 'bg-rose-100 text-rose-800'}`}>
+            達標機率 {successPct.toFixed(1)}%
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+        <div>
+          <label className="block text-slate-500 mb-1">報酬模型</label>
+          <select
+            value={settings.model}
+            onChange={(e) => update({ model: e.target.value as ReturnModel })}
+            className="w-full p-2 border border-slate-300 rounded"
+          >
+            <option value="LOGNORMAL">常態 (平均/波動)</option>
+            <option value="BOOTSTRAP">歷史報酬抽樣</option>
+          </select>
+        </div>
+        {settings.model === 'LOGNORMAL' ? (
+          <>
+            <div>
+              <label className="block text-slate-500 mb-1">平均年報酬 (%)</label>
+              <input type="number" step="0.5" value={settings.meanReturn} onChange={(e) => update({ meanReturn: Number(e.target.value) })} className="w-full p-2 border border-slate-300 rounded text-right" />
+            </div>
+            <div>
+              <label className="block text-slate-500 mb-1">年化波動度 (%)</label>
+              <input type="number" step="1" value={settings.volatility} onChange={(e) => update({ volatility: Number(e.target.value) })} className="w-full p-2 border border-slate-300 rounded text-right" />
+            </div>
+          </>
+        ) : (
+          <div className="col-span-2">
+            <label className="block text-slate-500 mb-1">歷史年報酬 (%，逗號分隔)</label>
+            <div className="flex gap-1">
+              <input value={returnsText} onChange={(e) => handleReturnsChange(e.target.value)} placeholder="例如: 12.5, -8.2, 20.1" className="flex-grow p-2 border border-slate-300 rounded" />
+              {symbols.length > 0 && (
+                <>
+                  <select value={historySymbol} onChange={(e) => setHistorySymbol(e.target.value)} className="p-2 border border-slate-300 rounded">
+                    {symbols.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <button onClick={handleLoadFromHistory} className="px-2 border border-slate-300 rounded hover:bg-slate-50 whitespace-nowrap" title="以已儲存的歷史股價計算年報酬 (不含股利)">
+                    由股價計算
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+        <div>
+          <label className="block text-slate-500 mb-1">模擬次數</label>
+          <select value={settings.runs} onChange={(e) => update({ runs: Number(e.target.value) })} className="w-full p-2 border border-slate-300 rounded">
+            {[500, 1000, 2000, 5000, 10000].map(n => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {settings.model === 'BOOTSTRAP' && settings.historicalReturns.length === 0 && (
+        <p className="text-xs text-amber-600">尚未輸入歷史報酬，暫以常態模型計算。</p>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-slate-50 p-3 rounded-lg">
+              <div className="text-xs text-slate-500">悲觀 P10</div>
+              <div className="font-mono font-bold text-slate-700">{formatWan(result.finalP10)}</div>
+            </div>
+            <div className="bg-indigo-50 p-3 rounded-lg">
+              <div className="text-xs text-indigo-600">中位數 P50</div>
+              <div className="font-mono font-bold text-indigo-700">{formatWan(result.finalP50)}</div>
+            </div>
+            <div className="bg-slate-50 p-3 rounded-lg">
+              <div className="text-xs text-slate-500">樂觀 P90</div>
+              <div className="font-mono font-bold text-slate-700">{formatWan(result.finalP90)}</div>
+            </div>
+          </div>
+
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="age" tick={{ fontSize: 11 }} />
+                <YAxis tickFormatter={formatWan} tick={{ fontSize: 11 }} width={70} />
+                <Tooltip
+                  labelFormatter={(age) => `${age} 歲`}
+                  formatter={(value: number | number[], name: string) => {
+                    if (Array.isArray(value)) return [`${formatWan(value[0])} ~ ${formatWan(value[1])}`, 'P10 ~ P90'];
+                    return [formatWan(value), name];
+                  }}
+                />
+                <ReferenceLine y={target} stroke="#f97316" strokeDasharray="4 4" label={{ value: '目標資產', fontSize: 11, fill: '#f97316' }} />
+                <Area dataKey="band" stroke="none" fill="#8b5cf6" fillOpacity={0.15} isAnimationActive={false} />
+                <Line dataKey="p50" name="P50" stroke="#6366f1" strokeWidth={2} dot={false} isAnimationActive={false} />
+                <Line dataKey="p10" name="P10" stroke="#a78bfa" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+                <Line dataKey="p90" name="P90" stroke="#a78bfa" strokeDasharray="3 3" dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[10px] text-slate-400">
+            每年隨機抽取一個年報酬並按月複利，儲蓄險與勞退帳戶以固定利率計算。達標定義：退休時總資產足以支應目標月領 (隨通膨調整) 至預期壽命。
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -1,51 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { RetirementPlan, RetirementResult, StockAnalysis } from '../types';
-import { Calculator, ArrowRight, DollarSign, PiggyBank, Coins, Calculator as CalcIcon, ShieldCheck, Info } from 'lucide-react';
+import { RetirementPlan, RetirementResult, StockAnalysis, WithdrawalStrategy, MoneyBasis, Currency, FxSettings } from '../types';
+import { Calculator, ArrowRight, DollarSign, PiggyBank, Coins, Calculator as CalcIcon, Hourglass, Landmark, Copy, Pencil, Trash2, GitCompare, AlertTriangle } from 'lucide-react';
 import { getRetirementAdvice } from '../services/geminiService';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
+import { projectRetirement } from '../services/retirementModel';
+import { WITHDRAWAL_STRATEGY_LABELS } from '../services/decumulation';
+import { MONEY_BASIS_LABELS, targetPensionAtRetirement, toMoneyBasis } from '../services/inflation';
+import { LABOR_PENSION_WAGE_CAP, MIN_ANNUITY_YEARS, laborInsuranceBenefit, laborInsuranceIncomeAt, laborPensionBalanceAfter, laborPensionMonthlyContribution } from '../services/laborPension';
+import { SolverField } from '../services/goalSolver';
+import { policyValueAt } from '../services/insurance';
+import { DEFAULT_FX_SETTINGS, convert, formatMoney, fxExposure, toTwd } from '../services/fx';
+import { RetirementScenario, createScenario, loadActiveScenarioId, loadScenarios, saveActiveScenarioId, saveScenarios } from '../services/scenarios';
+import MonteCarloPanel from './MonteCarloPanel';
+import InsurancePolicyEditor from './InsurancePolicyEditor';
+import ScenarioComparison from './ScenarioComparison';
+import GoalSolverPanel from './GoalSolverPanel';
+import DecumulationPanel from './DecumulationPanel';
 
 interface RetirementCalcProps {
   portfolioStocks?: StockAnalysis[];
   stockQuantities?: Record<string, number>;
   onQuantityChange?: (symbol: string, qty: number) => void;
+  ledgerSymbols?: string[]; // quantities derived from the trade ledger, not editable here
+  stockCurrencies?: Record<string, Currency>;
+  fxSettings?: FxSettings;
 }
 
 const RetirementCalc: React.FC<RetirementCalcProps> = ({ 
   portfolioStocks = [], 
   stockQuantities = {},
-  onQuantityChange
+  onQuantityChange,
+  ledgerSymbols = [],
+  stockCurrencies = {},
+  fxSettings = DEFAULT_FX_SETTINGS
 }) => {
-  // Initialize from LocalStorage
-  const [plan, setPlan] = useState<RetirementPlan>(() => {
-    try {
-      const saved = localStorage.getItem('finance_retirement_plan');
-      const parsed = saved ? JSON.parse(saved) : {};
-      return {
-        currentAge: parsed.currentAge || 30,
-        retirementAge: parsed.retirementAge || 65,
-        currentSavings: parsed.currentSavings || 1000000,
-        monthlySavings: parsed.monthlySavings || 20000,
-        targetMonthlyPension: parsed.targetMonthlyPension || 50000,
-        expectedAnnualReturn: parsed.expectedAnnualReturn || 6,
-        // Default Insurance values (User request: 200k, 2.5%, Year 111/2022)
-        insurancePrincipal: parsed.insurancePrincipal || 200000,
-        insuranceRate: parsed.insuranceRate || 2.5,
-        insuranceYearDone: parsed.insuranceYearDone || 2022
-      };
-    } catch (e) {
-      return {
-        currentAge: 30,
-        retirementAge: 65,
-        currentSavings: 1000000,
-        monthlySavings: 20000,
-        targetMonthlyPension: 50000,
-        expectedAnnualReturn: 6,
-        insurancePrincipal: 200000,
-        insuranceRate: 2.5,
-        insuranceYearDone: 2022
-      };
-    }
-  });
+  // Initialize from LocalStorage; the plan being edited belongs to the active scenario
+  const [scenarios, setScenarios] = useState<RetirementScenario[]>(loadScenarios);
+  const [activeScenarioId, setActiveScenarioId] = useState<string>(() => loadActiveScenarioId(scenarios));
+  const [plan, setPlan] = useState<RetirementPlan>(() => ({ ...scenarios.find(s => s.id === activeScenarioId)!.plan, fxRates: fxSettings.rates }));
+  const [showComparison, setShowComparison] = useState(false);
 
   // Separate Cash Savings to distinguish from Portfolio Value in UI
   // Note: plan.currentSavings tracks the TOTAL of Cash + Portfolio (excluding insurance)
@@ -54,20 +47,24 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
   const [result, setResult] = useState<RetirementResult | null>(null);
   const [advice, setAdvice] = useState<string>('');
   const [loadingAdvice, setLoadingAdvice] = useState(false);
+  const [adviceError, setAdviceError] = useState<string | null>(null);
   const [showPortfolioCalc, setShowPortfolioCalc] = useState(false);
+  const [mode, setMode] = useState<'DETERMINISTIC' | 'MONTE_CARLO'>('DETERMINISTIC');
+  const [moneyBasis, setMoneyBasis] = useState<MoneyBasis>(() => (localStorage.getItem('finance_money_basis') as MoneyBasis) || 'TODAY');
 
-  // Calculate Total Portfolio Value
+  // Calculate Total Portfolio Value; the plan is denominated in TWD, so foreign holdings are converted.
+  // Holdings without a quote add nothing rather than being guessed at.
+  const currencyOf = (stock: StockAnalysis): Currency => stockCurrencies[stock.symbol] || stock.currency || 'TWD';
+  const holdingValue = (stock: StockAnalysis) => stock.currentPrice * (stockQuantities[stock.symbol] || 0);
   const portfolioTotalValue = portfolioStocks.reduce((sum, stock) => {
-    const qty = stockQuantities[stock.symbol] || 0;
-    return sum + (stock.currentPrice * qty);
+    return sum + toTwd(holdingValue(stock), currencyOf(stock), fxSettings.rates);
   }, 0);
 
   // Derived values for UI display
-  const currentYear = new Date().getFullYear();
-  const yearsToRetire = plan.retirementAge - plan.currentAge;
-  const retireYear = currentYear + yearsToRetire;
-  const insuranceCompoundingYears = Math.max(0, retireYear - plan.insuranceYearDone);
-  const insuranceFinalValue = Math.round(plan.insurancePrincipal * Math.pow(1 + (plan.insuranceRate / 100), insuranceCompoundingYears));
+  const projection = projectRetirement(plan);
+  const retireYear = new Date().getFullYear() + plan.retirementAge - plan.currentAge;
+  const laborPensionAtRetirement = laborPensionBalanceAfter(plan, Math.max(0, plan.retirementAge - plan.currentAge) * 12);
+  const laborInsurance = laborInsuranceBenefit(plan);
 
   // On mount, split plan.currentSavings into cash (estimate) and portfolio
   useEffect(() => {
@@ -87,52 +84,42 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [cashSavings, portfolioTotalValue]);
 
-  // Persist plan whenever it changes
+  // Foreign-currency policies are valued with the shared FX rates
+  useEffect(() => {
+    if (JSON.stringify(plan.fxRates) !== JSON.stringify(fxSettings.rates)) {
+      setPlan(prev => ({ ...prev, fxRates: fxSettings.rates }));
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fxSettings.rates]);
+
+  // Write plan changes back into the active scenario
   useEffect(() => {
-    localStorage.setItem('finance_retirement_plan', JSON.stringify(plan));
+    setScenarios(prev => prev.map(s => s.id === activeScenarioId ? { ...s, plan, updatedAt: new Date().toISOString() } : s));
     calculate();
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [plan]);
 
+  useEffect(() => {
+    saveScenarios(scenarios);
+  }, [scenarios]);
+
   const calculate = () => {
-    if (yearsToRetire <= 0) return;
-
-    // 1. Calculate General Investments (Cash + Stocks) using Expected Return
-    const monthlyRate = plan.expectedAnnualReturn / 100 / 12;
-    const months = yearsToRetire * 12;
-    const fvLumpSum = plan.currentSavings * Math.pow(1 + monthlyRate, months);
-    const fvMonthly = plan.monthlySavings * ((Math.pow(1 + monthlyRate, months) - 1) / monthlyRate);
-
-    // 2. Calculate Insurance (Fixed Rate)
-    // Formula: Principal * (1 + rate)^(RetireYear - YearDone)
-    const fvInsurance = plan.insurancePrincipal * Math.pow(1 + (plan.insuranceRate / 100), insuranceCompoundingYears);
-
-    const totalAccumulated = fvLumpSum + fvMonthly + fvInsurance;
-
-    const safeAnnualWithdrawal = totalAccumulated * 0.04;
-    const monthlyPensionPossible = safeAnnualWithdrawal / 12;
-    
-    const requiredTotal = (plan.targetMonthlyPension * 12) / 0.04;
-    const shortfall = Math.max(0, requiredTotal - totalAccumulated);
-
-    const calcResult: RetirementResult = {
-      yearsToRetire: yearsToRetire,
-      totalAccumulated,
-      monthlyPensionPossible,
-      isGoalReachable: monthlyPensionPossible >= plan.targetMonthlyPension,
-      shortfall,
-      advice: ''
-    };
-
-    setResult(calcResult);
+    if (!projection) return;
+    setResult(projection.result);
   };
 
   const fetchAdvice = async () => {
     if (!result) return;
     setLoadingAdvice(true);
-    const adviceText = await getRetirementAdvice(plan, result);
-    setAdvice(adviceText);
-    setLoadingAdvice(false);
+    setAdviceError(null);
+    try {
+      setAdvice(await getRetirementAdvice(plan, result, moneyBasis));
+    } catch (error) {
+      console.error(error);
+      setAdviceError("無法取得 AI 建議。請確認 AI 設定或 API 金鑰是否正確，或稍後再試。");
+    } finally {
+      setLoadingAdvice(false);
+    }
   };
 
   const handleInputChange = (field: keyof RetirementPlan, value: string) => {
@@ -143,21 +130,117 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
     setCashSavings(Number(value));
   };
 
+  const switchScenario = (scenario: RetirementScenario) => {
+    setActiveScenarioId(scenario.id);
+    saveActiveScenarioId(scenario.id);
+    setPlan({ ...scenario.plan, fxRates: fxSettings.rates });
+    setCashSavings(Math.max(0, scenario.plan.currentSavings - portfolioTotalValue));
+    setAdvice('');
+  };
+
+  const handleDuplicateScenario = () => {
+    const active = scenarios.find(s => s.id === activeScenarioId);
+    const copy = createScenario(`${active?.name || '情境'} 複本`, plan);
+    setScenarios(prev => [...prev, copy]);
+    switchScenario(copy);
+  };
+
+  const handleRenameScenario = () => {
+    const active = scenarios.find(s => s.id === activeScenarioId);
+    const name = prompt('情境名稱', active?.name || '');
+    if (!name?.trim()) return;
+    setScenarios(prev => prev.map(s => s.id === activeScenarioId ? { ...s, name: name.trim() } : s));
+  };
+
+  const handleDeleteScenario = () => {
+    if (scenarios.length <= 1) return;
+    const active = scenarios.find(s => s.id === activeScenarioId);
+    if (!confirm(`確定刪除情境「${active?.name}」？`)) return;
+    const remaining = scenarios.filter(s => s.id !== activeScenarioId);
+    setScenarios(remaining);
+    switchScenario(remaining[0]);
+  };
+
+  const handleApplySolution = (field: SolverField, value: number) => {
+    // currentSavings is derived from cash + portfolio, so the solved total is reached through the cash input
+    if (field === 'currentSavings') {
+      setCashSavings(Math.max(0, value - portfolioTotalValue));
+    } else {
+      setPlan(prev => ({ ...prev, [field]: value }));
+    }
+  };
+
+  const handleMoneyBasisChange = (basis: MoneyBasis) => {
+    setMoneyBasis(basis);
+    localStorage.setItem('finance_money_basis', basis);
+  };
+
+  // Projection figures are nominal amounts at retirement; show them in the selected basis
+  const atRetirement = (value: number) => toMoneyBasis(value, plan, plan.retirementAge, moneyBasis);
+
+  // Plan figures are TWD; totals are shown in the base currency chosen in the FX settings
+  const { baseCurrency } = fxSettings;
+  const money = (twd: number) => formatMoney(convert(twd, 'TWD', baseCurrency, fxSettings.rates), baseCurrency);
+
+  // What the investable assets are held in today, before everything is converted to TWD
+  const currentYear = new Date().getFullYear();
+  const assetExposure = fxExposure([
+    { currency: 'TWD', amount: cashSavings + plan.laborPensionBalance },
+    ...portfolioStocks.map(stock => ({ currency: currencyOf(stock), amount: holdingValue(stock) })),
+    ...plan.insurancePolicies.map(policy => ({ currency: policy.currency, amount: policyValueAt(policy, currentYear) })),
+  ], baseCurrency, fxSettings.rates);
+
   // Chart Data Preparation
-  const chartData = result ? [
-    { name: '目前投資複利', value: Math.round(plan.currentSavings * Math.pow(1 + (plan.expectedAnnualReturn / 100 / 12), (plan.retirementAge - plan.currentAge) * 12)) },
-    { name: '儲蓄險複利', value: insuranceFinalValue },
-    { name: '未來投入本金', value: plan.monthlySavings * 12 * (plan.retirementAge - plan.currentAge) },
-    { name: '未來投入複利', value: Math.round(result.totalAccumulated - 
-      (plan.currentSavings * Math.pow(1 + (plan.expectedAnnualReturn / 100 / 12), (plan.retirementAge - plan.currentAge) * 12)) - 
-      insuranceFinalValue -
-      (plan.monthlySavings * 12 * (plan.retirementAge - plan.currentAge))) },
+  const chartData = result && projection ? [
+    { name: '目前投資複利', value: Math.round(atRetirement(projection.fvLumpSum)) },
+    { name: '儲蓄險複利', value: Math.round(atRetirement(projection.fvInsurance)) },
+    { name: '未來投入本金', value: Math.round(atRetirement(plan.monthlySavings * 12 * result.yearsToRetire)) },
+    { name: '未來投入複利', value: Math.round(atRetirement(projection.fvMonthly - plan.monthlySavings * 12 * result.yearsToRetire)) },
+    { name: '勞退 / 勞保', value: Math.round(atRetirement(projection.fvLaborPension + projection.laborInsurance.lumpSum)) },
   ] : [];
 
-  const COLORS = ['#94a3b8', '#f59e0b', '#3b82f6', '#10b981'];
+  const COLORS = ['#94a3b8', '#f59e0b', '#3b82f6', '#10b981', '#14b8a6'];
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+      {/* Scenario Bar */}
+      <div className="lg:col-span-12 flex flex-wrap items-center gap-2 bg-white p-3 rounded-xl border border-slate-200 shadow-sm text-sm">
+        <span className="text-slate-500 text-xs font-medium mr-1">情境</span>
+        {scenarios.map(scenario => (
+          <button
+            key={scenario.id}
+            onClick={() => switchScenario(scenario)}
+            className={`px-3 py-1 rounded-full border text-xs ${scenario.id === activeScenarioId ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+          >
+            {scenario.name}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1 text-xs">
+          <button onClick={handleDuplicateScenario} className="px-2 py-1 rounded text-slate-600 hover:bg-slate-100 flex items-center" title="複製目前情境">
+            <Copy className="w-3 h-3 mr-1" /> 複製
+          </button>
+          <button onClick={handleRenameScenario} className="px-2 py-1 rounded text-slate-600 hover:bg-slate-100 flex items-center">
+            <Pencil className="w-3 h-3 mr-1" /> 重新命名
+          </button>
+          <button onClick={handleDeleteScenario} disabled={scenarios.length <= 1} className="px-2 py-1 rounded text-slate-600 hover:bg-slate-100 disabled:opacity-40 flex items-center">
+            <Trash2 className="w-3 h-3 mr-1" /> 刪除
+          </button>
+          <button
+            onClick={() => setShowComparison(!showComparison)}
+            disabled={scenarios.length < 2}
+            className={`px-2 py-1 rounded flex items-center disabled:opacity-40 ${showComparison ? 'bg-indigo-50 text-indigo-700' : 'text-slate-600 hover:bg-slate-100'}`}
+          >
+            <GitCompare className="w-3 h-3 mr-1" /> 比較
+          </button>
+        </div>
+      </div>
+
+      {showComparison && scenarios.length >= 2 && (
+        <div className="lg:col-span-12">
+          <ScenarioComparison scenarios={scenarios} activeId={activeScenarioId} moneyBasis={moneyBasis} />
+        </div>
+      )}
+
       {/* Input Section */}
       <div className="lg:col-span-4 space-y-6 bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
         <h3 className="text-lg font-bold text-slate-800 flex items-center">
@@ -190,7 +273,7 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
           <div className="flex items-center justify-between border-b border-slate-200 pb-2">
              <label className="text-sm font-bold text-slate-700">積極投資部位</label>
              <span className="text-indigo-600 font-bold font-mono text-sm">
-               ${plan.currentSavings.toLocaleString()}
+               {formatMoney(plan.currentSavings, 'TWD')}
              </span>
           </div>
 
@@ -219,7 +302,7 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
                 </div>
                 <div className="flex items-center">
                    <span className="text-xs font-mono font-medium text-slate-700 mr-2">
-                     + ${portfolioTotalValue.toLocaleString()}
+                     + {formatMoney(portfolioTotalValue, 'TWD')}
                    </span>
                    <CalcIcon className="h-3 w-3 text-indigo-500" />
                 </div>
@@ -233,10 +316,10 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
                          <div key={stock.symbol} className="flex items-center justify-between text-xs bg-white p-2 rounded border border-slate-200">
                             <div>
                                <div className="font-bold">{stock.symbol}</div>
-                               <div className="text-slate-400">${stock.currentPrice}</div>
+                               <div className="text-slate-400">{stock.currentPrice > 0 ? formatMoney(stock.currentPrice, currencyOf(stock), 2) : '無報價'}</div>
                             </div>
                             <div className="flex items-center space-x-2">
-                               {onQuantityChange ? (
+                               {onQuantityChange && !ledgerSymbols.includes(stock.symbol) ? (
                                  <input 
                                    type="number"
                                    placeholder="股數"
@@ -248,7 +331,7 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
                                  <span className="w-16 text-right font-mono">{stockQuantities[stock.symbol] || 0}</span>
                                )}
                                <div className="w-16 text-right font-mono text-slate-600">
-                                  ${Math.round(stock.currentPrice * (stockQuantities[stock.symbol] || 0)).toLocaleString()}
+                                  {stock.currentPrice > 0 ? formatMoney(toTwd(holdingValue(stock), currencyOf(stock), fxSettings.rates), 'TWD') : '-'}
                                </div>
                             </div>
                          </div>
@@ -275,66 +358,109 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
         </div>
 
         {/* Insurance Assets Section */}
-        <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 space-y-3">
-          <div className="flex items-center justify-between border-b border-amber-200/60 pb-2">
-             <label className="text-sm font-bold text-amber-800 flex items-center">
-               <ShieldCheck className="w-4 h-4 mr-1" /> 已繳清儲蓄險
+        <InsurancePolicyEditor
+          policies={plan.insurancePolicies}
+          fxRates={plan.fxRates}
+          retireYear={retireYear}
+          onChange={(insurancePolicies) => setPlan(prev => ({ ...prev, insurancePolicies }))}
+        />
+
+        {/* Labor Pension / Labor Insurance Section */}
+        <div className="bg-emerald-50 p-4 rounded-lg border border-emerald-200 space-y-3">
+          <div className="flex items-center justify-between border-b border-emerald-200/60 pb-2">
+             <label className="text-sm font-bold text-emerald-800 flex items-center">
+               <Landmark className="w-4 h-4 mr-1" /> 勞退 / 勞保
              </label>
-             <span className="text-amber-700 font-mono text-sm font-bold">
-               ${insuranceFinalValue.toLocaleString()}
+             <span className="text-emerald-700 font-mono text-sm font-bold" title={`退休時勞退帳戶 (${MONEY_BASIS_LABELS[moneyBasis]})`}>
+               {money(atRetirement(laborPensionAtRetirement))}
              </span>
           </div>
-          
-          <div>
-            <label className="block text-xs font-medium text-amber-700 mb-1">期滿繳清本金 (元)</label>
-            <input 
-              type="number" 
-              value={plan.insurancePrincipal} 
-              onChange={(e) => handleInputChange('insurancePrincipal', e.target.value)}
-              className="w-full rounded-md border-amber-300 shadow-sm focus:border-amber-500 focus:ring-amber-500 border p-2 text-right text-sm bg-white"
-            />
-          </div>
-          
           <div className="grid grid-cols-2 gap-3">
-             <div>
-                <label className="block text-xs font-medium text-amber-700 mb-1">複利利率 (%)</label>
-                <input 
-                  type="number" 
-                  step="0.1"
-                  value={plan.insuranceRate} 
-                  onChange={(e) => handleInputChange('insuranceRate', e.target.value)}
-                  className="w-full rounded-md border-amber-300 shadow-sm focus:border-amber-500 focus:ring-amber-500 border p-2 text-right text-sm bg-white"
-                />
-             </div>
-             <div>
-                <label className="block text-xs font-medium text-amber-700 mb-1">繳清年份 (西元)</label>
-                <input 
-                  type="number" 
-                  value={plan.insuranceYearDone} 
-                  onChange={(e) => handleInputChange('insuranceYearDone', e.target.value)}
-                  className="w-full rounded-md border-amber-300 shadow-sm focus:border-amber-500 focus:ring-amber-500 border p-2 text-right text-sm bg-white"
-                />
-                <div className="text-[10px] text-amber-600 text-right mt-0.5">民國 {plan.insuranceYearDone - 1911} 年</div>
-             </div>
-          </div>
-          
-          {/* Calculation Info Box */}
-          <div className="bg-white/60 p-2 rounded border border-amber-200 text-xs text-amber-800/80">
-            <div className="flex items-start gap-1">
-              <Info className="w-3 h-3 mt-0.5 flex-shrink-0" />
-              <div className="leading-relaxed">
-                <span className="font-semibold">複利試算公式：</span>
-                <br/>本金 × (1 + 利率)<sup className="text-[10px]">年數</sup>
-                <br/>
-                <span className="font-mono text-amber-600">
-                  {plan.insurancePrincipal.toLocaleString()} × (1.0{plan.insuranceRate.toString().replace('.','')})
-                  <sup className="text-[10px]">{insuranceCompoundingYears}年</sup>
-                </span>
-                <div className="mt-1 pt-1 border-t border-amber-200/50">
-                   複利年數: {plan.insuranceYearDone}年 ➔ {retireYear}年 (共{insuranceCompoundingYears}年)
-                </div>
-              </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">月薪 (元)</label>
+              <input 
+                type="number" 
+                value={plan.monthlySalary} 
+                onChange={(e) => handleInputChange('monthlySalary', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">勞退帳戶目前餘額</label>
+              <input 
+                type="number" 
+                value={plan.laborPensionBalance} 
+                onChange={(e) => handleInputChange('laborPensionBalance', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">雇主提繳 (%)</label>
+              <input 
+                type="number" 
+                step="0.5"
+                value={plan.employerPensionRate} 
+                onChange={(e) => handleInputChange('employerPensionRate', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
             </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">自願提繳 (%)</label>
+              <input 
+                type="number" 
+                step="0.5"
+                value={plan.selfPensionRate} 
+                onChange={(e) => handleInputChange('selfPensionRate', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">勞退基金年報酬 (%)</label>
+              <input 
+                type="number" 
+                step="0.1"
+                value={plan.laborPensionReturn} 
+                onChange={(e) => handleInputChange('laborPensionReturn', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">勞保年金請領年齡</label>
+              <input 
+                type="number" 
+                value={plan.laborInsuranceClaimAge} 
+                onChange={(e) => handleInputChange('laborInsuranceClaimAge', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">勞保已投保年資</label>
+              <input 
+                type="number" 
+                value={plan.laborInsuranceYears} 
+                onChange={(e) => handleInputChange('laborInsuranceYears', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-emerald-700 mb-1">平均月投保薪資</label>
+              <input 
+                type="number" 
+                value={plan.laborInsuranceSalary} 
+                onChange={(e) => handleInputChange('laborInsuranceSalary', e.target.value)}
+                className="w-full rounded-md border-emerald-300 shadow-sm focus:border-emerald-500 focus:ring-emerald-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+          </div>
+          <div className="bg-white/60 p-2 rounded border border-emerald-200 text-xs text-emerald-800/80 leading-relaxed">
+            每月提繳 ${laborPensionMonthlyContribution(plan).toLocaleString()} (工資上限 {LABOR_PENSION_WAGE_CAP.toLocaleString()})
+            <br/>
+            退休時勞保年資 {laborInsurance.insuredYears} 年，
+            {laborInsurance.eligible
+              ? <>{laborInsurance.claimAge} 歲起月領 ${laborInsurance.monthlyAnnuity.toLocaleString()} (今日幣值)</>
+              : laborInsurance.lumpSum > 0
+                ? <>未滿 {MIN_ANNUITY_YEARS} 年，僅能請領一次金 ${laborInsurance.lumpSum.toLocaleString()}</>
+                : <>尚未輸入投保資料</>}
           </div>
         </div>
 
@@ -354,7 +480,7 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
         </div>
 
         <div>
-          <label className="block text-sm font-medium text-slate-700 mb-1">目標退休後月領 (元)</label>
+          <label className="block text-sm font-medium text-slate-700 mb-1">目標退休後月領 (今日幣值，元)</label>
           <div className="relative rounded-md shadow-sm">
              <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-3">
               <span className="text-slate-400 text-sm">目標</span>
@@ -368,6 +494,70 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
           </div>
         </div>
 
+        {/* Withdrawal Phase Section */}
+        <div className="bg-sky-50 p-4 rounded-lg border border-sky-200 space-y-3">
+          <label className="text-sm font-bold text-sky-800 flex items-center border-b border-sky-200/60 pb-2">
+            <Hourglass className="w-4 h-4 mr-1" /> 退休後提領
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-sky-700 mb-1">預期壽命 (歲)</label>
+              <input 
+                type="number" 
+                value={plan.lifeExpectancy} 
+                onChange={(e) => handleInputChange('lifeExpectancy', e.target.value)}
+                className="w-full rounded-md border-sky-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-sky-700 mb-1">退休後年化報酬 (%)</label>
+              <input 
+                type="number" 
+                step="0.5"
+                value={plan.retirementReturn} 
+                onChange={(e) => handleInputChange('retirementReturn', e.target.value)}
+                className="w-full rounded-md border-sky-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-sky-700 mb-1">通膨率 (%)</label>
+              <input 
+                type="number" 
+                step="0.1"
+                value={plan.inflationRate} 
+                onChange={(e) => handleInputChange('inflationRate', e.target.value)}
+                className="w-full rounded-md border-sky-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-sky-700 mb-1">提領策略</label>
+              <select
+                value={plan.withdrawalStrategy}
+                onChange={(e) => setPlan(prev => ({ ...prev, withdrawalStrategy: e.target.value as WithdrawalStrategy }))}
+                className="w-full rounded-md border-sky-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 border p-2 text-sm bg-white"
+              >
+                {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[]).map(key => (
+                  <option key={key} value={key}>{WITHDRAWAL_STRATEGY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {plan.withdrawalStrategy !== 'FIXED_REAL' && (
+            <div>
+              <label className="block text-xs font-medium text-sky-700 mb-1">
+                {plan.withdrawalStrategy === 'GUARDRAILS' ? '初始提領率 (%)' : '每年提領餘額比例 (%)'}
+              </label>
+              <input 
+                type="number" 
+                step="0.1"
+                value={plan.withdrawalRate} 
+                onChange={(e) => handleInputChange('withdrawalRate', e.target.value)}
+                className="w-full rounded-md border-sky-300 shadow-sm focus:border-sky-500 focus:ring-sky-500 border p-2 text-right text-sm bg-white"
+              />
+            </div>
+          )}
+        </div>
+
         <button
           onClick={fetchAdvice}
           disabled={loadingAdvice || !result}
@@ -375,12 +565,43 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
         >
           {loadingAdvice ? "AI 分析中..." : "取得 AI 專業建議"}
         </button>
+        {adviceError && (
+          <div className="p-3 bg-rose-50 border border-rose-200 rounded-lg flex items-start animate-fadeIn">
+            <AlertTriangle className="w-4 h-4 text-rose-500 mr-2 flex-shrink-0 mt-0.5" />
+            <div className="text-xs text-rose-700">{adviceError}</div>
+          </div>
+        )}
       </div>
 
       {/* Result Section */}
       <div className="lg:col-span-8 space-y-6">
         {result && (
           <>
+            <div className="flex justify-between">
+              <div className="inline-flex rounded-md border border-slate-200 bg-white p-0.5 text-xs">
+                {(Object.keys(MONEY_BASIS_LABELS) as MoneyBasis[]).map(basis => (
+                  <button
+                    key={basis}
+                    onClick={() => handleMoneyBasisChange(basis)}
+                    className={`px-3 py-1 rounded ${moneyBasis === basis ? 'bg-slate-700 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {MONEY_BASIS_LABELS[basis]}
+                  </button>
+                ))}
+              </div>
+              <div className="inline-flex rounded-md border border-slate-200 bg-white p-0.5 text-xs">
+                {([['DETERMINISTIC', '固定報酬'], ['MONTE_CARLO', '蒙地卡羅']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setMode(value)}
+                    className={`px-3 py-1 rounded ${mode === value ? 'bg-indigo-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className={`p-6 rounded-xl border ${result.isGoalReachable ? 'bg-emerald-50 border-emerald-200' : 'bg-orange-50 border-orange-200'}`}>
                 <h4 className={`text-sm font-bold uppercase ${result.isGoalReachable ? 'text-emerald-700' : 'text-orange-700'}`}>
@@ -390,49 +611,76 @@ const RetirementCalc: React.FC<RetirementCalcProps> = ({
                   {result.isGoalReachable ? '目標可達成' : '目標有差距'}
                 </div>
                 <p className="text-slate-600 mt-1 text-sm">
-                   {plan.retirementAge}歲時每月可領約 NT$ <span className="font-mono font-bold text-lg">{result.monthlyPensionPossible.toLocaleString()}</span>
+                   {plan.retirementAge}歲時每月可領約 <span className="font-mono font-bold text-lg">{money(atRetirement(result.monthlyPensionPossible))}</span>
+                </p>
+                <p className="text-slate-400 text-xs mt-1">
+                   目標 {money(atRetirement(targetPensionAtRetirement(plan)))}，每年隨通膨 {plan.inflationRate}% 調整，可領至 {plan.lifeExpectancy} 歲
                 </p>
                 {!result.isGoalReachable && (
                    <p className="text-orange-600 text-xs mt-2 font-medium">
-                     尚缺總資產約 NT$ {result.shortfall.toLocaleString()}
+                     尚缺總資產約 {money(atRetirement(result.shortfall))}
                    </p>
                 )}
               </div>
 
               <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm flex flex-col justify-center">
-                 <div className="text-sm text-slate-500 mb-1">預估退休時總資產</div>
+                 <div className="text-sm text-slate-500 mb-1">預估退休時總資產 ({MONEY_BASIS_LABELS[moneyBasis]})</div>
                  <div className="text-2xl font-bold text-slate-800 font-mono">
-                   NT$ {result.totalAccumulated.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                   {money(atRetirement(result.totalAccumulated))}
                  </div>
                  <div className="text-xs text-slate-400 mt-2 flex flex-wrap gap-2">
                    <span className="bg-indigo-50 px-2 py-0.5 rounded text-indigo-700">投資 {plan.expectedAnnualReturn}%</span>
-                   <span className="bg-amber-50 px-2 py-0.5 rounded text-amber-700">儲蓄險 {plan.insuranceRate}%</span>
+                   <span className="bg-amber-50 px-2 py-0.5 rounded text-amber-700">儲蓄險 {plan.insurancePolicies.length} 張</span>
+                   {laborInsurance.eligible && (
+                     <span className="bg-emerald-50 px-2 py-0.5 rounded text-emerald-700">
+                       另有勞保年金 {laborInsurance.claimAge} 歲起月領 {money(toMoneyBasis(laborInsuranceIncomeAt(plan, laborInsurance.claimAge, laborInsurance), plan, laborInsurance.claimAge, moneyBasis))}
+                     </span>
+                   )}
                  </div>
               </div>
             </div>
 
-            <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-80">
-                <h4 className="text-sm font-bold text-slate-700 mb-4">資產累積結構預測</h4>
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={chartData}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={80}
-                      paddingAngle={5}
-                      dataKey="value"
-                    >
-                      {chartData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                      ))}
-                    </Pie>
-                    <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
-                    <Legend verticalAlign="bottom" height={36} />
-                  </PieChart>
-                </ResponsiveContainer>
-            </div>
+            {assetExposure.some(row => row.currency !== baseCurrency) && (
+              <div className="bg-white px-4 py-3 rounded-xl border border-slate-200 shadow-sm text-xs flex flex-wrap items-center gap-2">
+                <span className="text-slate-500 font-medium mr-1">目前資產幣別曝險</span>
+                {assetExposure.map(row => (
+                  <span key={row.currency} className={`px-2 py-0.5 rounded font-mono ${row.currency === baseCurrency ? 'bg-slate-100 text-slate-600' : 'bg-sky-50 text-sky-700'}`}>
+                    {row.currency} {(row.share * 100).toFixed(1)}% · {formatMoney(row.amount, row.currency)}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {mode === 'MONTE_CARLO' ? (
+              <MonteCarloPanel plan={plan} symbols={portfolioStocks.map(s => s.symbol)} />
+            ) : (
+              <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm h-80">
+                  <h4 className="text-sm font-bold text-slate-700 mb-4">資產累積結構預測</h4>
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie
+                        data={chartData}
+                        cx="50%"
+                        cy="50%"
+                        innerRadius={60}
+                        outerRadius={80}
+                        paddingAngle={5}
+                        dataKey="value"
+                      >
+                        {chartData.map((entry, index) => (
+                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip formatter={(value: number) => money(value)} />
+                      <Legend verticalAlign="bottom" height={36} />
+                    </PieChart>
+                  </ResponsiveContainer>
+              </div>
+            )}
+
+            <DecumulationPanel plan={plan} startBalance={result.totalAccumulated} moneyBasis={moneyBasis} />
+
+            <GoalSolverPanel plan={plan} onApply={handleApplySolution} />
 
             {advice && (
               <div className="bg-gradient-to-r from-indigo-50 to-white p-6 rounded-xl border border-indigo-100 shadow-sm animate-fadeIn">
@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { MoneyBasis } from '../types';
+import { RetirementScenario } from '../services/scenarios';
+import { assetCurve, projectRetirement } from '../services/retirementModel';
+import { MONEY_BASIS_LABELS, targetPensionAtRetirement, toMoneyBasis } from '../services/inflation';
+import { WITHDRAWAL_STRATEGY_LABELS } from '../services/decumulation';
+import { GitCompare } from 'lucide-react';
+
+interface ScenarioComparisonProps {
+  scenarios: RetirementScenario[];
+  activeId: string;
+  moneyBasis: MoneyBasis;
+}
+
+const LINE_COLORS = ['#6366f1', '#f59e0b', '#10b981', '#e11d48', '#0ea5e9', '#8b5cf6'];
+
+const formatWan = (value: number) => `${Math.round(value / 10000).toLocaleString()}萬`;
+
+const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ scenarios, activeId, moneyBasis }) => {
+  const rows = useMemo(() => scenarios.map(scenario => {
+    const { plan } = scenario;
+    const projection = projectRetirement(plan);
+    const atRetirement = (value: number) => toMoneyBasis(value, plan, plan.retirementAge, moneyBasis);
+    return {
+      scenario,
+      result: projection?.result || null,
+      atRetirement,
+      curve: assetCurve(plan).map(p => ({ age: p.age, value: toMoneyBasis(p.value, plan, p.age, moneyBasis) })),
+    };
+  }), [scenarios, moneyBasis]);
+
+  // One row per age with a column per scenario, for the overlay chart
+  const chartData = useMemo(() => {
+    const byAge = new Map<number, Record<string, number>>();
+    rows.forEach(({ scenario, curve }) => {
+      curve.forEach(p => {
+        const point = byAge.get(p.age) || { age: p.age };
+        point[scenario.id] = Math.round(p.value);
+        byAge.set(p.age, point);
+      });
+    });
+    return Array.from(byAge.values()).sort((a, b) => a.age - b.age);
+  }, [rows]);
+
+  const metric = (label: string, render: (row: typeof rows[number]) => React.ReactNode) => (
+    <tr>
+      <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{label}</td>
+      {rows.map(row => (
+        <td key={row.scenario.id} className={`px-3 py-2 text-right font-mono ${row.scenario.id === activeId ? 'bg-indigo-50/50' : ''}`}>
+          {render(row)}
+        </td>
+      ))}
+    </tr>
+  );
+
+  const money = (value: number) => Math.round(value).toLocaleString();
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm space-y-4">
+      <h4 className="text-sm font-bold text-slate-700 flex items-center">
+        <GitCompare className="w-4 h-4 mr-2 text-indigo-500" /> 情境比較 ({MONEY_BASIS_LABELS[moneyBasis]})
+      </h4>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50">
+            <tr>
+              <th className="px-3 py-2"></th>
+              {rows.map((row, index) => (
+                <th key={row.scenario.id} className="px-3 py-2 text-right whitespace-nowrap" style={{ color: LINE_COLORS[index % LINE_COLORS.length] }}>
+                  {row.scenario.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {metric('退休年齡', r => r.scenario.plan.retirementAge)}
+            {metric('每月投入', r => money(r.scenario.plan.monthlySavings))}
+            {metric('預期報酬', r => `${r.scenario.plan.expectedAnnualReturn}%`)}
+            {metric('提領策略', r => WITHDRAWAL_STRATEGY_LABELS[r.scenario.plan.withdrawalStrategy])}
+            {metric('退休時總資產', r => r.result ? money(r.atRetirement(r.result.totalAccumulated)) : '-')}
+            {metric('每月可領', r => r.result ? money(r.atRetirement(r.result.monthlyPensionPossible)) : '-')}
+            {metric('目標月領', r => money(r.atRetirement(targetPensionAtRetirement(r.scenario.plan))))}
+            {metric('資金缺口', r => r.result ? (
+              <span className={r.result.shortfall > 0 ? 'text-orange-600' : 'text-emerald-600'}>
+                {r.result.shortfall > 0 ? money(r.atRetirement(r.result.shortfall)) : '達標'}
+              </span>
+            ) : '-')}
+            {metric('資產耗盡', r => r.result ? (r.result.depletionAge ?? `> ${r.scenario.plan.lifeExpectancy}`) : '-')}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="age" tick={{ fontSize: 11 }} />
+            <YAxis tickFormatter={formatWan} tick={{ fontSize: 11 }} width={70} />
+            <Tooltip labelFormatter={(age) => `${age} 歲`} formatter={(value: number, name: string) => [`$${value.toLocaleString()}`, name]} />
+            <Legend verticalAlign="bottom" height={24} />
+            {rows.map((row, index) => (
+              <Line
+                key={row.scenario.id}
+                dataKey={row.scenario.id}
+                name={row.scenario.name}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={row.scenario.id === activeId ? 3 : 1.5}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioComparison;
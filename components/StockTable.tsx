@@ -1,7 +1,12 @@
 import React, { useState, useMemo } from 'react';
-import { StockAnalysis } from '../types';
-import { ChevronDown, ChevronUp, TrendingUp, TrendingDown, Minus, Calculator, Search, Filter, XCircle } from 'lucide-react';
+import { StockAnalysis, PositionSummary, Currency, FxRates, AnalysisSource } from '../types';
+import { unrealizedPnL } from '../services/ledger';
+import { CURRENCIES, DEFAULT_FX_RATES, formatMoney } from '../services/fx';
+import { portfolioTotals } from '../services/portfolioValue';
+import { FreshnessStatus, QUOTE_SESSION_LABELS, quoteFreshness } from '../services/quoteFreshness';
+import { ChevronDown, ChevronUp, TrendingUp, TrendingDown, Minus, Calculator, Search, Filter, XCircle, RefreshCw } from 'lucide-react';
 import AnalysisChart from './AnalysisChart';
+import IndicatorPanel from './IndicatorPanel';
 
 interface StockTableProps {
   stocks: StockAnalysis[];
@@ -10,20 +15,79 @@ interface StockTableProps {
   showSummary?: boolean;
   quantities?: Record<string, number>;
   onQuantityChange?: (symbol: string, qty: number) => void;
+  // Ledger-derived positions; symbols present here get read-only quantities and P&L columns
+  positions?: Record<string, PositionSummary>;
+  // Holding currencies by symbol; totals are converted into baseCurrency
+  currencies?: Record<string, Currency>;
+  fxRates?: FxRates;
+  baseCurrency?: Currency;
+  onCurrencyChange?: (symbol: string, currency: Currency) => void;
+  // Symbols still being analyzed: existing rows get a spinner, missing ones a placeholder row
+  analyzingSymbols?: string[];
+  // Clock for the staleness badges; the parent ticks it so badges change as sessions close
+  now?: Date;
 }
 
+const FRESHNESS_BADGE_CLASSES: Record<FreshnessStatus, string> = {
+  FRESH: 'bg-emerald-50 text-emerald-700',
+  INTRADAY: 'bg-sky-50 text-sky-700',
+  STALE: 'bg-rose-50 text-rose-700',
+  UNKNOWN: 'bg-slate-100 text-slate-500',
+};
+
+// Citations under the analysis text
+const SourceList: React.FC<{ sources?: AnalysisSource[] }> = ({ sources = [] }) => {
+  if (sources.length === 0) {
+    return <p className="mt-2 text-xs text-amber-700">此分析沒有附上可查證的來源</p>;
+  }
+  const staleCount = sources.filter(s => s.stale).length;
+  return (
+    <div className="mt-2 text-xs">
+      <div className="font-semibold text-slate-500 mb-1 flex items-center">
+        資料來源
+        {staleCount > 0 && (
+          <span className="ml-2 px-1.5 rounded bg-amber-50 text-amber-700 font-normal">
+            {staleCount} 則早於本時段報價日
+          </span>
+        )}
+      </div>
+      <ol className="list-decimal list-inside space-y-0.5 text-slate-600">
+        {sources.map(source => (
+          <li key={source.url}>
+            <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:underline">
+              {source.title}
+            </a>
+            <span className="ml-1 text-slate-400">{source.publishedAt || '日期不明'}</span>
+            {source.stale && <span className="ml-1 px-1 rounded bg-amber-50 text-amber-700">過舊</span>}
+            {!source.grounded && <span className="ml-1 px-1 rounded bg-slate-100 text-slate-500" title="模型列出，但不在搜尋引用中">未經搜尋驗證</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
 const StockTable: React.FC<StockTableProps> = ({ 
   stocks, 
   loading, 
   title, 
   showSummary = true,
   quantities,
-  onQuantityChange
+  onQuantityChange,
+  positions,
+  currencies = {},
+  fxRates = DEFAULT_FX_RATES,
+  baseCurrency = 'TWD',
+  onCurrencyChange,
+  analyzingSymbols = [],
+  now
 }) => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('ALL'); // ALL, BUY, SELL, HOLD
 
+  const currencyOf = (stock: StockAnalysis): Currency => currencies[stock.symbol] || stock.currency || 'TWD';
+
   const toggleExpand = (symbol: string) => {
     setExpandedId(expandedId === symbol ? null : symbol);
   };
@@ -52,14 +116,22 @@ const StockTable: React.FC<StockTableProps> = ({
     });
   }, [stocks, searchTerm, filterType]);
 
-  // Calculate Grand Total based on FILTERED stocks (so user sees total of what they are looking at)
-  const displayedTotal = useMemo(() => {
-    if (!quantities) return 0;
-    return filteredStocks.reduce((sum, stock) => {
-      const qty = quantities[stock.symbol] || 0;
-      return sum + (stock.currentPrice * qty);
-    }, 0);
-  }, [filteredStocks, quantities]);
+  // Calculate Grand Total based on FILTERED stocks (so user sees total of what they are looking at),
+  // each row converted from its own currency into the base currency
+  const displayedTotals = useMemo(
+    () => portfolioTotals(filteredStocks, { quantities, positions, currencies, fxRates, baseCurrency }),
+    [filteredStocks, quantities, positions, currencies, fxRates, baseCurrency]
+  );
+  const displayedTotal = displayedTotals.marketValue;
+
+  const showPnL = !!onQuantityChange && !!positions;
+  const columnCount = 7 + (onQuantityChange ? 2 : 0) + (showPnL ? 3 : 0);
+
+  // Portfolio-level P&L of the rows currently shown
+  const displayedPnL = { unrealized: displayedTotals.unrealizedPnL, realized: displayedTotals.realizedPnL };
+
+  const pnlClass = (value: number) => value > 0 ? 'text-rose-600' : value < 0 ? 'text-emerald-600' : 'text-slate-500';
+  const formatPnL = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value).toLocaleString()}`;
 
   if (loading) {
     return (
@@ -70,7 +142,9 @@ const StockTable: React.FC<StockTableProps> = ({
     );
   }
 
-  if (stocks.length === 0) {
+  const placeholderSymbols = analyzingSymbols.filter(symbol => !stocks.some(s => s.symbol === symbol));
+
+  if (stocks.length === 0 && placeholderSymbols.length === 0) {
     return (
       <div className="text-center p-8 text-slate-500 bg-white rounded-xl border border-slate-200 border-dashed">
         <p className="text-sm">尚無分析數據</p>
@@ -182,6 +256,13 @@ const StockTable: React.FC<StockTableProps> = ({
                 {onQuantityChange && (
                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">試算總值</th>
                 )}
+                {showPnL && (
+                  <>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">平均成本</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">未實現損益</th>
+                    <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider bg-indigo-50/50">已實現損益</th>
+                  </>
+                )}
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider hidden lg:table-cell">52週高/低</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider text-emerald-600 hidden sm:table-cell">建議買入</th>
                 <th scope="col" className="px-6 py-3 text-right text-xs font-semibold text-slate-500 uppercase tracking-wider text-rose-600 hidden sm:table-cell">建議賣出</th>
@@ -192,9 +273,9 @@ const StockTable: React.FC<StockTableProps> = ({
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-slate-200">
-              {filteredStocks.length === 0 ? (
+              {filteredStocks.length === 0 && placeholderSymbols.length === 0 ? (
                 <tr>
-                  <td colSpan={onQuantityChange ? 10 : 8} className="px-6 py-10 text-center text-slate-500 italic">
+                  <td colSpan={columnCount} className="px-6 py-10 text-center text-slate-500 italic">
                     沒有符合篩選條件的股票
                   </td>
                 </tr>
@@ -202,6 +283,8 @@ const StockTable: React.FC<StockTableProps> = ({
                 filteredStocks.map((stock) => {
                   const qty = quantities ? (quantities[stock.symbol] || 0) : 0;
                   const totalVal = stock.currentPrice * qty;
+                  const position = positions?.[stock.symbol];
+                  const freshness = quoteFreshness(stock, now);
 
                   return (
                   <React.Fragment key={stock.symbol}>
@@ -217,35 +300,79 @@ const StockTable: React.FC<StockTableProps> = ({
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
                           <div>
-                            <div className="text-sm font-bold text-slate-900">{stock.symbol}</div>
+                            <div className="text-sm font-bold text-slate-900 flex items-center">
+                              {stock.symbol}
+                              {analyzingSymbols.includes(stock.symbol) && <RefreshCw className="w-3 h-3 ml-1 text-indigo-400 animate-spin" />}
+                            </div>
                             <div className="text-xs text-slate-500">{stock.name}</div>
+                            {onCurrencyChange ? (
+                              <select
+                                value={currencyOf(stock)}
+                                onChange={(e) => onCurrencyChange(stock.symbol, e.target.value as Currency)}
+                                onClick={(e) => e.stopPropagation()}
+                                className="mt-1 text-[10px] p-0.5 border border-slate-200 rounded text-slate-500"
+                                title="持股幣別"
+                              >
+                                {CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+                              </select>
+                            ) : currencyOf(stock) !== 'TWD' && (
+                              <span className="text-[10px] px-1 bg-slate-100 text-slate-500 rounded">{currencyOf(stock)}</span>
+                            )}
                           </div>
                         </div>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-slate-800 font-mono">
-                        {stock.currentPrice}
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-slate-800 font-mono" title={stock.quoteSource ? `${stock.quoteSource} ${stock.quoteTime || stock.quoteAsOf || ''}` : undefined}>
+                        {stock.currentPrice > 0 ? stock.currentPrice : <span className="text-xs font-normal text-slate-400">無報價</span>}
+                        {stock.quoteAsOf && (
+                          <div className="text-[10px] font-normal text-slate-400">
+                            {stock.quoteAsOf}{stock.quoteSession && ` ${QUOTE_SESSION_LABELS[stock.quoteSession]}`}
+                          </div>
+                        )}
+                        <span
+                          className={`inline-block mt-0.5 px-1.5 rounded text-[10px] font-sans font-medium ${FRESHNESS_BADGE_CLASSES[freshness.status]}`}
+                          title={`${freshness.detail}${stock.quoteFetchedAt ? `\n取得時間 ${new Date(stock.quoteFetchedAt).toLocaleString()}` : ''}`}
+                        >
+                          {freshness.label}
+                        </span>
                       </td>
 
                       {/* Quantity Input */}
                       {onQuantityChange && (
                         <td className="px-6 py-4 whitespace-nowrap text-right bg-indigo-50/20">
-                          <input 
-                            type="number" 
-                            min="0"
-                            placeholder="0"
-                            value={qty || ''} 
-                            onChange={(e) => onQuantityChange(stock.symbol, Number(e.target.value))}
-                            onClick={(e) => e.stopPropagation()}
-                            className="w-20 text-right p-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono"
-                          />
+                          {position ? (
+                            <span className="font-mono text-sm text-slate-700" title="由交易紀錄計算">{qty.toLocaleString()}</span>
+                          ) : (
+                            <input 
+                              type="number" 
+                              min="0"
+                              placeholder="0"
+                              value={qty || ''} 
+                              onChange={(e) => onQuantityChange(stock.symbol, Number(e.target.value))}
+                              onClick={(e) => e.stopPropagation()}
+                              className="w-20 text-right p-1 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 font-mono"
+                            />
+                          )}
                         </td>
                       )}
                       {/* Total Value */}
                       {onQuantityChange && (
                         <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm font-medium text-slate-700 bg-indigo-50/20">
-                          {totalVal > 0 ? totalVal.toLocaleString() : '-'}
+                          {totalVal > 0 ? formatMoney(totalVal, currencyOf(stock), 2) : qty > 0 ? <span className="text-xs font-normal text-slate-400">無報價</span> : '-'}
                         </td>
                       )}
+                      {showPnL && (
+                        <>
+                          <td className="px-6 py-4 whitespace-nowrap text-right font-mono text-sm text-slate-600 bg-indigo-50/20">
+                            {position && position.quantity > 0 ? position.averageCost.toFixed(2) : '-'}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-right font-mono text-sm font-medium bg-indigo-50/20 ${position && stock.currentPrice > 0 ? pnlClass(unrealizedPnL(position, stock.currentPrice)) : 'text-slate-400'}`}>
+                            {position && position.quantity > 0 && stock.currentPrice > 0 ? formatPnL(unrealizedPnL(position, stock.currentPrice)) : '-'}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-right font-mono text-sm bg-indigo-50/20 ${position ? pnlClass(position.realizedPnL) : 'text-slate-400'}`} title={position ? `價差 ${formatPnL(position.realizedTradingPnL)} / 股利 ${formatPnL(position.dividendIncome)}` : undefined}>
+                            {position ? formatPnL(position.realizedPnL) : '-'}
+                          </td>
+                        </>
+                      )}
 
                       <td className="px-6 py-4 whitespace-nowrap text-right text-xs text-slate-500 font-mono hidden lg:table-cell">
                         <span className="text-rose-600">{stock.high52Week}</span> / <span className="text-emerald-600">{stock.low52Week}</span>
@@ -271,7 +398,7 @@ const StockTable: React.FC<StockTableProps> = ({
                     {/* Expanded Row */}
                     {expandedId === stock.symbol && (
                       <tr>
-                        <td colSpan={onQuantityChange ? 10 : 8} className="px-0 py-0 border-b border-slate-200 bg-slate-50/50">
+                        <td colSpan={columnCount} className="px-0 py-0 border-b border-slate-200 bg-slate-50/50">
                           <div className="p-6 grid grid-cols-1 lg:grid-cols-3 gap-8 animate-fadeIn">
                             {/* Left: Chart */}
                             <div className="lg:col-span-1">
@@ -292,7 +419,10 @@ const StockTable: React.FC<StockTableProps> = ({
                                 <p className="text-slate-700 leading-relaxed text-sm bg-white p-4 rounded-lg border border-slate-200">
                                   {stock.analysis}
                                 </p>
+                                <SourceList sources={stock.sources} />
                               </div>
+
+                              <IndicatorPanel symbol={stock.symbol} />
                               
                               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                                 <div className="bg-blue-50 p-4 rounded-lg border border-blue-100">
@@ -315,6 +445,15 @@ const StockTable: React.FC<StockTableProps> = ({
                 )})
               )}
 
+              {placeholderSymbols.map(symbol => (
+                <tr key={`analyzing-${symbol}`} className="bg-slate-50/50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-slate-400">{symbol}</td>
+                  <td colSpan={columnCount - 1} className="px-6 py-4 text-xs text-slate-400">
+                    <RefreshCw className="w-3 h-3 mr-1 inline animate-spin" /> AI 分析中...
+                  </td>
+                </tr>
+              ))}
+
               {/* Grand Total Row */}
               {onQuantityChange && filteredStocks.length > 0 && (
                 <tr className="bg-indigo-50 border-t-2 border-indigo-100">
@@ -322,8 +461,24 @@ const StockTable: React.FC<StockTableProps> = ({
                     {filterType !== 'ALL' || searchTerm ? '目前列表總市值' : '投資組合總市值'}
                   </td>
                   <td className="px-6 py-4 text-right font-mono text-lg font-bold text-indigo-700">
-                    ${displayedTotal.toLocaleString()}
+                    {formatMoney(displayedTotal, baseCurrency)}
+                    {displayedTotals.unquoted.length > 0 && (
+                      <div className="text-[10px] font-normal text-slate-500" title={displayedTotals.unquoted.join(', ')}>
+                        未計入 {displayedTotals.unquoted.length} 檔無報價持股
+                      </div>
+                    )}
                   </td>
+                  {showPnL && (
+                    <>
+                      <td></td>
+                      <td className={`px-6 py-4 text-right font-mono font-bold ${pnlClass(displayedPnL.unrealized)}`}>
+                        {formatPnL(displayedPnL.unrealized)}
+                      </td>
+                      <td className={`px-6 py-4 text-right font-mono font-bold ${pnlClass(displayedPnL.realized)}`}>
+                        {formatPnL(displayedPnL.realized)}
+                      </td>
+                    </>
+                  )}
                   <td colSpan={6} className="hidden lg:table-cell"></td>
                 </tr>
               )}
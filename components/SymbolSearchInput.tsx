@@ -0,0 +1,90 @@
+import React, { useState, useMemo } from 'react';
+import { SecurityRecord } from '../types';
+import { searchSecurities } from '../services/securityMaster';
+
+interface SymbolSearchInputProps {
+  value: string;
+  securities: SecurityRecord[];
+  onChange: (value: string) => void;
+  onSubmit: () => void;
+  placeholder?: string;
+}
+
+// Comma separated symbol input; the token being typed is completed from the security master
+const SymbolSearchInput: React.FC<SymbolSearchInputProps> = ({
+  value,
+  securities,
+  onChange,
+  onSubmit,
+  placeholder
+}) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const tokens = value.split(/[, ]+/);
+  const currentToken = tokens[tokens.length - 1] || '';
+  const suggestions = useMemo(() => searchSecurities(securities, currentToken), [securities, currentToken]);
+
+  const pick = (record: SecurityRecord) => {
+    const head = value.slice(0, value.length - currentToken.length);
+    onChange(`${head}${record.code}, `);
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = open && suggestions.length > 0;
+    if (e.key === 'ArrowDown' && showing) {
+      e.preventDefault();
+      setHighlighted(Math.min(suggestions.length - 1, highlighted + 1));
+    } else if (e.key === 'ArrowUp' && showing) {
+      e.preventDefault();
+      setHighlighted(Math.max(-1, highlighted - 1));
+    } else if (e.key === 'Enter') {
+      if (showing && highlighted >= 0) {
+        pick(suggestions[highlighted]);
+      } else {
+        setOpen(false);
+        onSubmit();
+      }
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative flex-grow">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => { onChange(e.target.value); setOpen(true); setHighlighted(-1); }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        placeholder={placeholder}
+        className="w-full p-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none uppercase"
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full bg-white border border-slate-200 rounded-lg shadow-lg max-h-64 overflow-y-auto text-sm">
+          {suggestions.map((record, index) => (
+            <li
+              key={record.code}
+              onMouseDown={(e) => { e.preventDefault(); pick(record); }}
+              className={`px-3 py-2 cursor-pointer flex items-center justify-between ${index === highlighted ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}
+            >
+              <span>
+                <span className="font-mono font-bold text-slate-800 mr-2">{record.code}</span>
+                <span className="text-slate-700">{record.name}</span>
+                {record.nameEn && <span className="text-xs text-slate-400 ml-2">{record.nameEn}</span>}
+              </span>
+              <span className="text-[10px] text-slate-400 whitespace-nowrap ml-2">
+                {record.market} · {record.isEtf ? 'ETF' : record.industry || ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SymbolSearchInput;
@@ -0,0 +1,507 @@
+import { Content, FunctionCall, GoogleGenAI, GroundingMetadata, Part, Tool } from "@google/genai";
+import { AIFeature, AIProviderId, AISettings, AIToolCall } from "../types";
+
+// The model behind the AI features. Prompts and response parsing live in geminiService;
+// a provider only turns a prompt into text, streamed or whole, plus any search grounding.
+
+// An earlier turn of a conversation
+export interface AIMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AIRequest {
+  feature: AIFeature;
+  model: string;
+  prompt: string; // the (latest) user turn
+  system?: string; // instructions and context kept apart from the conversation
+  history?: AIMessage[]; // earlier turns, oldest first
+  search?: boolean; // ground the answer in web search where the provider supports it
+  tools?: AITool[]; // functions the model may call before answering
+  symbols?: string[]; // symbols the prompt is about, so replayed fixtures can match them
+  signal?: AbortSignal;
+}
+
+// A web page the answer was grounded in
+export interface AIGroundingPage {
+  uri: string;
+  title?: string;
+  domain?: string;
+}
+
+// Grounding for part of an answer: supports name the text they back and the pages backing it
+export interface AIGrounding {
+  pages: AIGroundingPage[];
+  supports: { text: string; pageIndices: number[] }[];
+}
+
+// A function the model can call. The provider runs it and hands the result back to the model,
+// so answers can quote computed numbers instead of the model's own arithmetic.
+export interface AITool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>; // JSON Schema of the arguments object
+  run: (args: Record<string, unknown>) => unknown;
+}
+
+export interface AIChunk {
+  text: string;
+  grounding?: AIGrounding;
+  toolCall?: AIToolCall; // a tool the model called, with what it returned
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  needsApiKey: boolean; // the Gemini key prompt only applies to providers that need it
+  generate: (request: AIRequest) => Promise<string>;
+  stream: (request: AIRequest) => AsyncIterable<AIChunk>;
+}
+
+const AI_SETTINGS_STORAGE_KEY = 'finance_ai_settings';
+const AI_FIXTURE_STORAGE_KEY = 'finance_ai_fixtures';
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  trends: '市場熱點',
+  portfolio: '持股分析',
+  retirement: '退休建議',
+  assistant: '對話助理',
+};
+
+export const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// Model turns that may call tools before the final answer; guards against call loops
+const MAX_TOOL_ROUNDS = 5;
+
+// Runs a call the model made; failures go back to the model as an error result
+const runTool = (tools: AITool[] = [], name: string, args: Record<string, unknown> = {}): AIToolCall => {
+  const tool = tools.find(t => t.name === name);
+  if (!tool) return { name, args, result: { error: `Unknown tool "${name}"` } };
+  try {
+    return { name, args, result: tool.run(args) };
+  } catch (error) {
+    console.warn(`Tool ${name} failed:`, error);
+    return { name, args, result: { error: error instanceof Error ? error.message : String(error) } };
+  }
+};
+
+// --- Gemini adapter ---
+
+// Gemini key from storage or env
+export const getApiKey = (): string | null => {
+  // 1. Check LocalStorage
+  const stored = localStorage.getItem('gemini_api_key');
+  if (stored) return stored;
+
+  // 2. Check Environment Variables
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
+      // @ts-ignore
+      return import.meta.env.VITE_API_KEY;
+    }
+  } catch (e) {
+    // Ignore error
+  }
+
+  try {
+    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
+      return process.env.API_KEY;
+    }
+  } catch (e) {
+    // Ignore
+  }
+
+  return null;
+};
+
+// Initialize Gemini Client dynamically
+const getAIClient = () => {
+  const apiKey = getApiKey();
+  if (!apiKey) throw new Error("API Key missing");
+  return new GoogleGenAI({ apiKey });
+};
+
+const toGrounding = (metadata: GroundingMetadata): AIGrounding => ({
+  pages: (metadata.groundingChunks || []).map(chunk => ({
+    uri: chunk.web?.uri || '',
+    title: chunk.web?.title,
+    domain: chunk.web?.domain,
+  })),
+  supports: (metadata.groundingSupports || [])
+    .filter(support => support.segment?.text)
+    .map(support => ({ text: support.segment!.text!, pageIndices: support.groundingChunkIndices || [] })),
+});
+
+// Gemini calls the assistant role "model"
+const geminiContents = ({ prompt, history = [] }: AIRequest): Content[] => [
+  ...history.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+  { role: 'user', parts: [{ text: prompt }] },
+];
+
+const geminiParams = ({ model, system, search, tools = [], signal }: AIRequest, contents: Content[]) => {
+  const geminiTools: Tool[] = [
+    ...(search ? [{ googleSearch: {} }] : []),
+    ...(tools.length > 0
+      ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+      : []),
+  ];
+  return {
+    model,
+    contents,
+    config: {
+      systemInstruction: system,
+      tools: geminiTools.length > 0 ? geminiTools : undefined,
+      abortSignal: signal,
+    },
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  needsApiKey: true,
+  generate: async (request) => {
+    let text = '';
+    for await (const chunk of geminiProvider.stream(request)) text += chunk.text;
+    return text;
+  },
+  async *stream(request) {
+    const ai = getAIClient();
+    const contents = geminiContents(request);
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const stream = await ai.models.generateContentStream(geminiParams(request, contents));
+      // The model turn goes back as received (thought signatures included) when it called tools
+      const parts: Part[] = [];
+      const calls: FunctionCall[] = [];
+      for await (const chunk of stream) {
+        const metadata = chunk.candidates?.[0]?.groundingMetadata;
+        parts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+        calls.push(...(chunk.functionCalls || []));
+        yield { text: chunk.text || '', grounding: metadata ? toGrounding(metadata) : undefined };
+      }
+      if (calls.length === 0) return;
+
+      const results = calls.map(call => runTool(request.tools, call.name || '', call.args));
+      for (const toolCall of results) yield { text: '', toolCall };
+      contents.push(
+        { role: 'model', parts },
+        { role: 'user', parts: results.map((r, i) => ({ functionResponse: { id: calls[i].id, name: r.name, response: { result: r.result } } })) },
+      );
+    }
+  },
+};
+
+// --- OpenAI-compatible adapter ---
+
+// Any server speaking the /chat/completions API (llama.cpp, Ollama, LM Studio, vLLM).
+// There is no search tool, so answers carry only the sources the model lists itself.
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey = ''): AIProvider => {
+  const post = async ({ model, tools, signal }: AIRequest, messages: unknown[]) => {
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: true,
+        tools: tools && tools.length > 0
+          ? tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+          : undefined,
+      }),
+      signal,
+    });
+    if (!res.ok) throw new Error(`AI request failed: ${res.status}`);
+    if (!res.body) throw new Error("AI response has no body");
+    return res.body;
+  };
+
+  const provider: AIProvider = {
+    id: 'openai-compatible',
+    label: 'OpenAI 相容 API (本機 LLM)',
+    needsApiKey: false,
+    generate: async (request) => {
+      let text = '';
+      for await (const chunk of provider.stream(request)) text += chunk.text;
+      return text;
+    },
+    async *stream(request) {
+      const messages: unknown[] = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...(request.history || []),
+        { role: 'user', content: request.prompt },
+      ];
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        let text = '';
+        // Tool calls stream in pieces, keyed by index; arguments arrive as JSON text fragments
+        const calls: { id: string; name: string; arguments: string }[] = [];
+        for await (const delta of readChatDeltas(await post(request, messages))) {
+          if (delta.content) {
+            text += delta.content;
+            yield { text: delta.content };
+          }
+          (delta.tool_calls || []).forEach(part => {
+            const call = calls[part.index ?? 0] ||= { id: '', name: '', arguments: '' };
+            call.id = part.id || call.id;
+            call.name += part.function?.name || '';
+            call.arguments += part.function?.arguments || '';
+          });
+        }
+        if (calls.length === 0) return;
+
+        const results = calls.map(call => {
+          let args: Record<string, unknown> = {};
+          try {
+            args = call.arguments ? JSON.parse(call.arguments) : {};
+          } catch {
+            console.warn("Malformed tool arguments:", call.arguments);
+          }
+          return runTool(request.tools, call.name, args);
+        });
+        for (const toolCall of results) yield { text: '', toolCall };
+        messages.push(
+          { role: 'assistant', content: text || null, tool_calls: calls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } })) },
+          ...results.map((r, i) => ({ role: 'tool', tool_call_id: calls[i].id, content: JSON.stringify(r.result) })),
+        );
+      }
+    },
+  };
+  return provider;
+};
+
+// A piece of a streamed tool call; `index` says which call of the turn it belongs to
+interface ToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// What one stream event adds to the assistant message
+interface ChatDelta {
+  content?: string | null;
+  tool_calls?: ToolCallDelta[];
+}
+
+// Server-sent events: "data: {...}" lines, ending with "data: [DONE]"; yields each choice delta
+async function* readChatDeltas(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatDelta> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    // The last line may end without a newline; it is read once the stream closes
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      try {
+        const delta: ChatDelta | undefined = JSON.parse(data).choices?.[0]?.delta;
+        if (delta) yield delta;
+      } catch {
+        console.warn("Skipping malformed stream event:", data);
+      }
+    }
+    if (done) return;
+  }
+}
+
+// --- Fixture replay adapter ---
+
+// A recorded answer. Fixtures with symbols replay only for that exact symbol set (in any
+// order); fixtures without symbols answer any request for their feature.
+export interface AIFixture {
+  feature: AIFeature;
+  symbols?: string[];
+  toolCalls?: { name: string; args?: Record<string, unknown> }[]; // run before the response replays
+  response: string;
+}
+
+type DemoRow = [symbol: string, name: string, marketCap: string, buy: number, sell: number, recommendation: string, analysis: string, yieldRange: string, scenario: string];
+
+// Offline sample answers for the demo quote symbols, so every screen works without a model
+const DEMO_ROWS: DemoRow[] = [
+  ['0050', '元大台灣50', '3500億', 175, 200, 'HOLD', '追蹤台灣前50大市值公司，權值股比重高，價格位於52週區間中上緣。', '3-4%', '定期定額持續累積，回檔至175以下可加碼。'],
+  ['2330', '台積電', '27兆', 980, 1150, 'BUY', '先進製程需求穩健，營收維持成長，價格距52週高點約一成。', '1.5-2%', '分批布局，跌破980再加碼，1150以上可部分獲利了結。'],
+  ['2834', '臺企銀', '1100億', 13.5, 15.5, 'HOLD', '公股銀行獲利穩定，股價接近52週區間中段，殖利率具吸引力。', '4-5%', '作為存股部位持有，接近52週高點時可減碼。'],
+  ['3042', '晶技', '330億', 100, 130, 'HOLD', '石英元件需求溫和回升，股價仍在52週區間低檔。', '4-5%', '等待營收確認回溫再加碼。'],
+  ['1101', '台泥', '2100億', 26, 32, 'HOLD', '水泥本業需求平淡，新能源布局仍待發酵，股價貼近52週低點。', '3-4%', '維持觀望，跌破26再評估。'],
+  ['9904', '寶成', '1100億', 33, 41, 'BUY', '運動鞋代工訂單回溫，股價位於52週區間中段。', '4-5%', '33附近分批買進，41以上可獲利了結。'],
+];
+
+const TREND_DEMO_SYMBOLS = ['2330', '0050', '2834'];
+
+const demoRow = (symbol: string) => {
+  const row = DEMO_ROWS.find(r => r[0] === symbol);
+  if (!row) {
+    return {
+      symbol, name: symbol, marketCap: '-', suggestBuyPrice: 0, suggestSellPrice: 0, recommendation: 'HOLD',
+      analysis: '離線模擬回應，沒有此代碼的樣本分析。', projectedAnnualYield: '-', exampleScenario: '-',
+    };
+  }
+  const [, name, marketCap, buy, sell, recommendation, analysis, yieldRange, scenario] = row;
+  return {
+    symbol, name, marketCap, suggestBuyPrice: buy, suggestSellPrice: sell, recommendation,
+    analysis: `${analysis} (離線模擬回應)`, projectedAnnualYield: yieldRange, exampleScenario: scenario,
+  };
+};
+
+const demoResponse = (request: AIRequest): string => {
+  switch (request.feature) {
+    case 'trends':
+      return JSON.stringify(TREND_DEMO_SYMBOLS.map(demoRow), null, 2);
+    case 'portfolio':
+      return JSON.stringify((request.symbols || []).map(demoRow), null, 2);
+    case 'assistant':
+      return request.tools && request.tools.length > 0
+        ? `(離線模擬回應) 關於「${request.prompt.trim()}」：已依目前資料執行 ${request.tools.length} 項計算，結果列於下方計算依據；離線模式不會進一步解讀，請切換至 Gemini 或本機模型取得回答。`
+        : `(離線模擬回應) 關於「${request.prompt.trim()}」：離線模式不會實際分析您的持股與退休試算，請切換至 Gemini 或本機模型取得回答。`;
+    case 'retirement':
+      return '(離線模擬回應) 依目前的試算，建議先確認每月儲蓄是否能長期維持，並定期檢視預期報酬率是否過於樂觀。若存在資金缺口，可考慮提高儲蓄、延後退休或調整資產配置；若已達成目標，則維持紀律、逐步降低退休前幾年的投資風險。';
+  }
+};
+
+const sameSymbols = (a: string[], b: string[]) =>
+  a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',');
+
+// Chunk size of replayed streams, so the incremental parsing paths run offline too
+const FIXTURE_CHUNK_SIZE = 48;
+
+export const createFixtureAIProvider = (fixtures: AIFixture[]): AIProvider => {
+  const replay = (request: AIRequest): { response: string; toolCalls: { name: string; args?: Record<string, unknown> }[] } => {
+    const candidates = fixtures.filter(f => f.feature === request.feature);
+    const match = candidates.find(f => f.symbols && sameSymbols(f.symbols, request.symbols || []))
+      || candidates.find(f => !f.symbols);
+    if (match) return { response: match.response, toolCalls: match.toolCalls || [] };
+    // Without a recording every tool runs once with default arguments
+    return { response: demoResponse(request), toolCalls: (request.tools || []).map(t => ({ name: t.name })) };
+  };
+  const answer = (request: AIRequest): string => replay(request).response;
+
+  return {
+    id: 'fixture',
+    label: '離線模擬 (固定回應)',
+    needsApiKey: false,
+    generate: async (request) => {
+      if (request.signal?.aborted) throw abortError();
+      return answer(request);
+    },
+    async *stream(request) {
+      const { response: text, toolCalls } = replay(request);
+      for (const call of toolCalls) yield { text: '', toolCall: runTool(request.tools, call.name, call.args) };
+      for (let i = 0; i < text.length; i += FIXTURE_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw abortError();
+        yield { text: text.slice(i, i + FIXTURE_CHUNK_SIZE) };
+      }
+    },
+  };
+};
+
+export const loadAIFixtures = (): AIFixture[] => {
+  try {
+    const saved = localStorage.getItem(AI_FIXTURE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Parses and stores a JSON array of recorded answers; returns the number of fixtures loaded
+export const importAIFixtures = (text: string): number => {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error("AI fixture JSON must be an array");
+  const fixtures: AIFixture[] = parsed
+    .filter(f => f && f.feature in AI_FEATURE_LABELS && typeof f.response === 'string')
+    .map(f => ({
+      feature: f.feature,
+      symbols: Array.isArray(f.symbols) ? f.symbols.map(String) : undefined,
+      toolCalls: Array.isArray(f.toolCalls) ? f.toolCalls.filter(c => c && typeof c.name === 'string') : undefined,
+      response: f.response,
+    }));
+  localStorage.setItem(AI_FIXTURE_STORAGE_KEY, JSON.stringify(fixtures));
+  return fixtures.length;
+};
+
+// --- Settings ---
+
+export const AI_PROVIDER_OPTIONS: { id: AIProviderId; label: string }[] = [
+  { id: 'gemini', label: geminiProvider.label },
+  { id: 'openai-compatible', label: 'OpenAI 相容 API (本機 LLM)' },
+  { id: 'fixture', label: '離線模擬 (固定回應)' },
+];
+
+const isProviderId = (value: unknown): value is AIProviderId =>
+  AI_PROVIDER_OPTIONS.some(opt => opt.id === value);
+
+export const DEFAULT_AI_MODELS: Record<AIProviderId, Record<AIFeature, string>> = {
+  gemini: { trends: 'gemini-2.5-flash', portfolio: 'gemini-2.5-flash', retirement: 'gemini-2.5-flash', assistant: 'gemini-2.5-flash' },
+  'openai-compatible': { trends: 'llama3.1', portfolio: 'llama3.1', retirement: 'llama3.1', assistant: 'llama3.1' },
+  fixture: { trends: 'fixture', portfolio: 'fixture', retirement: 'fixture', assistant: 'fixture' },
+};
+
+// VITE_AI_PROVIDER picks the default, e.g. "fixture" for offline development
+const defaultProviderId = (): AIProviderId => {
+  try {
+    // @ts-ignore
+    const fromEnv = typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_AI_PROVIDER;
+    if (isProviderId(fromEnv)) return fromEnv;
+  } catch (e) {
+    // Ignore
+  }
+  return 'gemini';
+};
+
+export const defaultAISettings = (providerId: AIProviderId = defaultProviderId()): AISettings => ({
+  providerId,
+  models: { ...DEFAULT_AI_MODELS[providerId] },
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+});
+
+export const loadAISettings = (): AISettings => {
+  try {
+    const saved = localStorage.getItem(AI_SETTINGS_STORAGE_KEY);
+    if (!saved) return defaultAISettings();
+    const parsed = JSON.parse(saved);
+    const defaults = defaultAISettings(isProviderId(parsed.providerId) ? parsed.providerId : undefined);
+    return {
+      providerId: defaults.providerId,
+      models: { ...defaults.models, ...parsed.models },
+      baseUrl: parsed.baseUrl || defaults.baseUrl,
+      apiKey: parsed.apiKey || '',
+    };
+  } catch {
+    return defaultAISettings();
+  }
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  localStorage.setItem(AI_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// --- Provider selection ---
+
+// Explicit override, e.g. a scripted provider when exercising the pipeline offline
+let providerOverride: AIProvider | null = null;
+
+export const setAIProvider = (provider: AIProvider | null) => {
+  providerOverride = provider;
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (providerOverride) return providerOverride;
+  const settings = loadAISettings();
+  if (settings.providerId === 'fixture') return createFixtureAIProvider(loadAIFixtures());
+  if (settings.providerId === 'openai-compatible') return createOpenAICompatibleProvider(settings.baseUrl, settings.apiKey);
+  return geminiProvider;
+};
+
+export const getAIModel = (feature: AIFeature): string => {
+  const { providerId, models } = loadAISettings();
+  return models[feature] || DEFAULT_AI_MODELS[providerId][feature];
+};
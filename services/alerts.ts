@@ -0,0 +1,173 @@
+import { AlertRule, AlertEvent, StockAnalysis } from "../types";
+
+const RULES_STORAGE_KEY = 'finance_alert_rules';
+const HISTORY_STORAGE_KEY = 'finance_alert_history';
+const MAX_HISTORY = 200;
+
+// --- Persistence ---
+
+export const loadAlertRules = (): AlertRule[] => {
+  try {
+    const saved = localStorage.getItem(RULES_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const loadAlertHistory = (): AlertEvent[] => {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Newest first, capped so the history can't grow without bound
+export const appendAlertHistory = (events: AlertEvent[]): AlertEvent[] => {
+  const history = [...events, ...loadAlertHistory()].slice(0, MAX_HISTORY);
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  return history;
+};
+
+export const clearAlertHistory = () => {
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- Rules ---
+
+export const describeAlertRule = (rule: AlertRule): string => {
+  switch (rule.type) {
+    case 'PRICE_CROSS': {
+      const level = rule.level === 'SUGGEST_BUY' ? '建議買入價' : rule.level === 'SUGGEST_SELL' ? '建議賣出價' : `${rule.price}`;
+      return `股價${rule.direction === 'ABOVE' ? '向上突破' : '向下跌破'} ${level}`;
+    }
+    case 'PERCENT_MOVE':
+      return `較基準價 ${rule.referencePrice ?? '-'} 變動超過 ${rule.percent}%`;
+    case 'NEAR_52W':
+      return `距 52 週${rule.extreme === 'HIGH' ? '高點' : '低點'} ${rule.percent}% 以內`;
+    case 'RECOMMENDATION_CHANGE':
+      return 'AI 評級改變';
+  }
+};
+
+const levelPrice = (rule: AlertRule, stock: StockAnalysis): number | undefined => {
+  if (rule.level === 'SUGGEST_BUY') return stock.suggestBuyPrice;
+  if (rule.level === 'SUGGEST_SELL') return stock.suggestSellPrice;
+  return rule.price;
+};
+
+const isNear52Week = (rule: AlertRule, stock: StockAnalysis): boolean => {
+  const extreme = rule.extreme === 'HIGH' ? stock.high52Week : stock.low52Week;
+  if (!extreme || !stock.currentPrice) return false;
+  return Math.abs(stock.currentPrice - extreme) / extreme * 100 <= (rule.percent ?? 0);
+};
+
+// Returns the alert message when the rule fires between two snapshots of a symbol.
+// Every rule type fires on a transition, so repeated refreshes don't re-fire the same condition.
+const checkRule = (rule: AlertRule, prev: StockAnalysis | undefined, cur: StockAnalysis): string | null => {
+  if (!cur.currentPrice) return null;
+
+  switch (rule.type) {
+    case 'PRICE_CROSS': {
+      const level = levelPrice(rule, cur);
+      if (!prev?.currentPrice || !level) return null;
+      const crossedUp = prev.currentPrice < level && cur.currentPrice >= level;
+      const crossedDown = prev.currentPrice > level && cur.currentPrice <= level;
+      if (rule.direction === 'ABOVE' && crossedUp) return `${cur.symbol} 股價 ${cur.currentPrice} 向上突破 ${level}`;
+      if (rule.direction === 'BELOW' && crossedDown) return `${cur.symbol} 股價 ${cur.currentPrice} 向下跌破 ${level}`;
+      return null;
+    }
+    case 'PERCENT_MOVE': {
+      if (!rule.referencePrice || !rule.percent) return null;
+      const change = (cur.currentPrice - rule.referencePrice) / rule.referencePrice * 100;
+      if (Math.abs(change) < rule.percent) return null;
+      return `${cur.symbol} 較基準價 ${rule.referencePrice} ${change > 0 ? '上漲' : '下跌'} ${Math.abs(change).toFixed(1)}%`;
+    }
+    case 'NEAR_52W': {
+      if (!prev || isNear52Week(rule, prev) || !isNear52Week(rule, cur)) return null;
+      const extreme = rule.extreme === 'HIGH' ? cur.high52Week : cur.low52Week;
+      return `${cur.symbol} 股價 ${cur.currentPrice} 接近 52 週${rule.extreme === 'HIGH' ? '高點' : '低點'} ${extreme}`;
+    }
+    case 'RECOMMENDATION_CHANGE': {
+      if (!prev || prev.recommendation === cur.recommendation) return null;
+      return `${cur.symbol} AI 評級由 ${prev.recommendation} 變為 ${cur.recommendation}`;
+    }
+  }
+};
+
+// Evaluate all enabled rules against a portfolio refresh. PERCENT_MOVE rules are re-based
+// at the price that fired them, so the next alert needs another full move.
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  previous: StockAnalysis[],
+  current: StockAnalysis[]
+): { events: AlertEvent[]; rules: AlertRule[] } => {
+  const now = new Date().toISOString();
+  const events: AlertEvent[] = [];
+
+  const updatedRules = rules.map(rule => {
+    if (!rule.enabled) return rule;
+    const cur = current.find(s => s.symbol === rule.symbol);
+    if (!cur) return rule;
+    const prev = previous.find(s => s.symbol === rule.symbol);
+
+    const message = checkRule(rule, prev, cur);
+    if (!message) return rule;
+
+    events.push({ id: createId(), ruleId: rule.id, symbol: rule.symbol, message, price: cur.currentPrice, triggeredAt: now });
+    return {
+      ...rule,
+      lastTriggeredAt: now,
+      referencePrice: rule.type === 'PERCENT_MOVE' ? cur.currentPrice : rule.referencePrice,
+    };
+  });
+
+  return { events, rules: updatedRules };
+};
+
+export const createAlertRule = (fields: Omit<AlertRule, 'id' | 'createdAt' | 'enabled'>): AlertRule => ({
+  ...fields,
+  id: createId(),
+  enabled: true,
+  createdAt: new Date().toISOString(),
+});
+
+// --- Web Notifications ---
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+// Prefer the service worker registration when the PWA has one (required on mobile)
+export const showAlertNotifications = async (events: AlertEvent[]) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration().catch(() => undefined)
+    : undefined;
+
+  events.forEach(event => {
+    const options: NotificationOptions = { body: event.message, tag: event.ruleId };
+    try {
+      if (registration) {
+        registration.showNotification('理財小教室 價格提醒', options);
+      } else {
+        new Notification('理財小教室 價格提醒', options);
+      }
+    } catch (e) {
+      console.warn("Notification failed", e);
+    }
+  });
+};
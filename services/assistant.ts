@@ -0,0 +1,184 @@
+import { ChatMessage, Currency, FxSettings, MoneyBasis, PositionSummary, RetirementPlan, RetirementResult, StockAnalysis, WithdrawalStrategy } from "../types";
+import { AITool } from "./aiProvider";
+import { projectRetirement } from "./retirementModel";
+import { MONEY_BASIS_LABELS, targetPensionAtRetirement, toMoneyBasis } from "./inflation";
+import { WITHDRAWAL_STRATEGY_LABELS } from "./decumulation";
+import { portfolioTotals } from "./portfolioValue";
+import { toSymbolKey } from "./exchanges";
+
+// Conversation with the portfolio assistant, kept across reloads, and the calculations it can
+// run as tools
+
+const CHAT_HISTORY_STORAGE_KEY = 'finance_assistant_history';
+// Oldest turns are dropped beyond this; only the latest ones are sent to the model anyway
+const MAX_STORED_MESSAGES = 100;
+
+export const loadChatHistory = (): ChatMessage[] => {
+  try {
+    const saved = localStorage.getItem(CHAT_HISTORY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+// Tool results make turns large; when the storage quota is full the older half is dropped until
+// the rest fits, so a long conversation never breaks the panel
+export const saveChatHistory = (messages: ChatMessage[]) => {
+  let kept = messages.slice(-MAX_STORED_MESSAGES);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(kept));
+      return;
+    } catch (error) {
+      console.warn("Chat history is over the storage quota, trimming:", error);
+      kept = kept.slice(Math.ceil(kept.length / 2));
+    }
+  }
+  clearChatHistory();
+};
+
+export const clearChatHistory = () => {
+  localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+};
+
+export const createChatMessage = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  role,
+  content,
+  createdAt: new Date().toISOString(),
+});
+
+// --- Context ---
+
+// What the assistant knows about the user: the analyzed holdings and the active retirement plan
+export interface AssistantContext {
+  stocks: StockAnalysis[];
+  quantities: Record<string, number>;
+  positions: Record<string, PositionSummary>;
+  currencies: Record<string, Currency>; // holding currencies set by hand
+  fxSettings: FxSettings;
+  plan: RetirementPlan | null;
+  result: RetirementResult | null; // null when the plan has no years left to project
+  basis: MoneyBasis;
+}
+
+// --- Tools ---
+
+export const TOOL_LABELS: Record<string, string> = {
+  project_retirement: '退休試算',
+  get_portfolio_totals: '持股市值與損益',
+};
+
+// Plan fields the model may change in a what-if projection
+const PLAN_OVERRIDES: { field: keyof RetirementPlan; description: string }[] = [
+  { field: 'currentSavings', description: '目前可投資資產 (TWD)' },
+  { field: 'monthlySavings', description: '每月儲蓄 (TWD)' },
+  { field: 'retirementAge', description: '退休年齡' },
+  { field: 'expectedAnnualReturn', description: '退休前年化報酬率 (%)' },
+  { field: 'targetMonthlyPension', description: '目標退休後月領 (今日幣值 TWD)' },
+  { field: 'retirementReturn', description: '退休後年化報酬率 (%)' },
+  { field: 'inflationRate', description: '通膨率 (%)' },
+  { field: 'lifeExpectancy', description: '預期壽命' },
+];
+
+const WITHDRAWAL_STRATEGIES = Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategy[];
+
+const round = (value: number) => Math.round(value);
+
+// The projection's headline numbers, amounts at retirement in the chosen money basis
+const summarizeProjection = (plan: RetirementPlan, basis: MoneyBasis) => {
+  const projection = projectRetirement(plan);
+  if (!projection) return { error: '退休年齡必須大於目前年齡' };
+  const { result } = projection;
+  const atRetirement = (value: number) => round(toMoneyBasis(value, plan, plan.retirementAge, basis));
+  return {
+    retirementAge: plan.retirementAge,
+    yearsToRetire: result.yearsToRetire,
+    monthlySavings: plan.monthlySavings,
+    expectedAnnualReturn: plan.expectedAnnualReturn,
+    withdrawalStrategy: WITHDRAWAL_STRATEGY_LABELS[plan.withdrawalStrategy],
+    totalAccumulated: atRetirement(result.totalAccumulated),
+    targetMonthlyPension: atRetirement(targetPensionAtRetirement(plan)),
+    monthlyPensionPossible: atRetirement(result.monthlyPensionPossible),
+    shortfall: atRetirement(result.shortfall),
+    depletionAge: result.depletionAge,
+    isGoalReachable: result.isGoalReachable,
+  };
+};
+
+// RetirementCalc's deterministic projection, for the current plan and a variant of it
+export const retirementProjectionTool = (plan: RetirementPlan, basis: MoneyBasis): AITool => ({
+  name: 'project_retirement',
+  description: `以退休試算模型計算目前計畫與修改部分參數後的結果。金額為退休時的${MONEY_BASIS_LABELS[basis]}；不帶參數即為目前計畫。`,
+  parameters: {
+    type: 'object',
+    properties: {
+      ...Object.fromEntries(PLAN_OVERRIDES.map(({ field, description }) => [field, { type: 'number', description }])),
+      withdrawalStrategy: { type: 'string', enum: WITHDRAWAL_STRATEGIES, description: '提領策略' },
+    },
+  },
+  run: (args) => {
+    const changes: Partial<RetirementPlan> = {};
+    PLAN_OVERRIDES.forEach(({ field }) => {
+      const value = Number(args[field]);
+      if (args[field] !== undefined && Number.isFinite(value)) (changes as Record<string, number>)[field] = value;
+    });
+    if (WITHDRAWAL_STRATEGIES.includes(args.withdrawalStrategy as WithdrawalStrategy)) {
+      changes.withdrawalStrategy = args.withdrawalStrategy as WithdrawalStrategy;
+    }
+    return {
+      moneyBasis: MONEY_BASIS_LABELS[basis],
+      changes,
+      current: summarizeProjection(plan, basis),
+      scenario: Object.keys(changes).length > 0 ? summarizeProjection({ ...plan, ...changes }, basis) : undefined,
+    };
+  },
+});
+
+// StockTable's totals: market value per holding and in total, plus ledger P&L
+export const portfolioTotalsTool = (context: AssistantContext): AITool => ({
+  name: 'get_portfolio_totals',
+  description: `計算持股市值、占比與損益 (以 ${context.fxSettings.baseCurrency} 計價，依目前匯率換算)。無報價的持股列於 unquotedSymbols，不計入市值與未實現損益。可指定代碼只計算部分持股。`,
+  parameters: {
+    type: 'object',
+    properties: {
+      symbols: { type: 'array', items: { type: 'string' }, description: '只計算這些代碼；省略則為全部持股' },
+    },
+  },
+  run: (args) => {
+    // The model may write "2330.TW" or "aapl.us" for the stored keys "2330" and "AAPL.US"
+    const symbols = Array.isArray(args.symbols) ? args.symbols.map(s => toSymbolKey(String(s))) : null;
+    const stocks = symbols ? context.stocks.filter(s => symbols.includes(s.symbol)) : context.stocks;
+    const totals = portfolioTotals(stocks, {
+      quantities: context.quantities,
+      positions: context.positions,
+      currencies: context.currencies,
+      fxRates: context.fxSettings.rates,
+      baseCurrency: context.fxSettings.baseCurrency,
+    });
+    return {
+      baseCurrency: context.fxSettings.baseCurrency,
+      marketValue: round(totals.marketValue),
+      unrealizedPnL: round(totals.unrealizedPnL),
+      realizedPnL: round(totals.realizedPnL),
+      holdings: totals.holdings.map(h => ({
+        symbol: h.symbol,
+        name: h.name,
+        quantity: h.quantity,
+        currentPrice: h.currentPrice,
+        currency: h.currency,
+        baseValue: h.hasQuote ? round(h.baseValue) : null,
+        weightPct: h.hasQuote && totals.marketValue > 0 ? Number((h.baseValue / totals.marketValue * 100).toFixed(1)) : null,
+        unrealizedPnL: h.unrealizedPnL === null ? null : round(h.unrealizedPnL),
+      })),
+      // Held but without a quote: not in marketValue or unrealizedPnL
+      unquotedSymbols: totals.unquoted,
+      missingSymbols: symbols ? symbols.filter(s => !stocks.some(stock => stock.symbol === s)) : undefined,
+    };
+  },
+});
+
+export const createAssistantTools = (context: AssistantContext): AITool[] => [
+  portfolioTotalsTool(context),
+  ...(context.plan ? [retirementProjectionTool(context.plan, context.basis)] : []),
+];
@@ -0,0 +1,5 @@
+// Calendar dates as YYYY-MM-DD strings
+
+// Local calendar date; toISOString() is UTC, a day behind in Taipei before 08:00
+export const localIsoDate = (d: Date = new Date()): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
@@ -0,0 +1,89 @@
+import { RetirementPlan, WithdrawalStrategy } from "../types";
+import { targetPensionAtRetirement } from "./inflation";
+import { laborInsuranceBenefit, laborInsuranceIncomeAt } from "./laborPension";
+
+// Withdrawal phase: from retirementAge to lifeExpectancy, one row per year.
+// Spending is taken at the start of each year, the remainder grows at retirementReturn.
+// Under FIXED_REAL the 勞保 annuity covers part of the spending; otherwise it comes on top.
+
+export const WITHDRAWAL_STRATEGY_LABELS: Record<WithdrawalStrategy, string> = {
+  FIXED_REAL: '固定實質金額',
+  FIXED_PERCENT: '固定比例',
+  GUARDRAILS: '護欄調整',
+};
+
+// Guardrails (Guyton-Klinger style): cut spending 10% when the current withdrawal rate drifts
+// 20% above the starting rate, raise it 10% when it drifts 20% below
+const GUARDRAIL_BAND = 0.2;
+const GUARDRAIL_ADJUSTMENT = 0.1;
+
+export interface WithdrawalYear {
+  age: number;
+  startBalance: number;
+  pensionIncome: number; // 勞保 annuity received this year
+  plannedWithdrawal: number;
+  withdrawal: number; // what the balance could actually cover
+  growth: number;
+  endBalance: number;
+}
+
+export interface WithdrawalSimulation {
+  rows: WithdrawalYear[];
+  depletionAge: number | null;
+  totalWithdrawn: number;
+}
+
+export const retirementYears = (plan: RetirementPlan) => Math.max(1, plan.lifeExpectancy - plan.retirementAge);
+
+// Present value, at retirement, of one unit of first-year spending that grows with inflation
+// every year until lifeExpectancy (withdrawals at the start of each year)
+export const spendingPresentValueFactor = (plan: RetirementPlan): number => {
+  const ratio = (1 + plan.inflationRate / 100) / (1 + plan.retirementReturn / 100);
+  const years = retirementYears(plan);
+  if (Math.abs(ratio - 1) < 1e-9) return years;
+  return (1 - Math.pow(ratio, years)) / (1 - ratio);
+};
+
+export const simulateWithdrawals = (plan: RetirementPlan, startBalance: number): WithdrawalSimulation => {
+  const r = plan.retirementReturn / 100;
+  const inflation = plan.inflationRate / 100;
+  const initialRate = plan.withdrawalRate / 100;
+
+  const rows: WithdrawalYear[] = [];
+  let balance = startBalance;
+  let spending = plan.withdrawalStrategy === 'FIXED_REAL' ? targetPensionAtRetirement(plan) * 12 : startBalance * initialRate;
+  let depletionAge: number | null = null;
+  let totalWithdrawn = 0;
+  const benefit = laborInsuranceBenefit(plan);
+
+  for (let i = 0; i < retirementYears(plan); i++) {
+    const age = plan.retirementAge + i;
+
+    if (i > 0) {
+      if (plan.withdrawalStrategy === 'FIXED_PERCENT') {
+        spending = balance * initialRate;
+      } else {
+        spending *= 1 + inflation;
+        if (plan.withdrawalStrategy === 'GUARDRAILS' && balance > 0) {
+          const currentRate = spending / balance;
+          if (currentRate > initialRate * (1 + GUARDRAIL_BAND)) spending *= 1 - GUARDRAIL_ADJUSTMENT;
+          else if (currentRate < initialRate * (1 - GUARDRAIL_BAND)) spending *= 1 + GUARDRAIL_ADJUSTMENT;
+        }
+      }
+    }
+
+    const pensionIncome = laborInsuranceIncomeAt(plan, age, benefit) * 12;
+    const plannedWithdrawal = plan.withdrawalStrategy === 'FIXED_REAL' ? Math.max(0, spending - pensionIncome) : spending;
+    const withdrawal = Math.min(balance, plannedWithdrawal);
+    if (withdrawal < plannedWithdrawal && depletionAge === null) depletionAge = age;
+
+    const growth = (balance - withdrawal) * r;
+    const endBalance = balance - withdrawal + growth;
+    rows.push({ age, startBalance: balance, pensionIncome, plannedWithdrawal, withdrawal, growth, endBalance });
+
+    totalWithdrawn += withdrawal;
+    balance = endBalance;
+  }
+
+  return { rows, depletionAge, totalWithdrawn };
+};
@@ -0,0 +1,162 @@
+import { DividendEvent, LedgerEntry } from "../types";
+import { createLedgerId } from "./ledger";
+import { localIsoDate } from "./dates";
+
+const DIVIDEND_STORAGE_KEY = 'finance_dividends';
+
+// Taiwan stock dividends are declared in NT$ of the NT$10 par value
+export const PAR_VALUE = 10;
+
+// NHI supplementary premium (二代健保補充保費) on a single dividend payment >= NT$20,000
+export const SUPPLEMENTARY_PREMIUM_RATE = 0.0211;
+export const SUPPLEMENTARY_PREMIUM_THRESHOLD = 20000;
+
+// --- Persistence ---
+
+export const loadDividends = (): DividendEvent[] => {
+  try {
+    const saved = localStorage.getItem(DIVIDEND_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDividends = (events: DividendEvent[]) => {
+  localStorage.setItem(DIVIDEND_STORAGE_KEY, JSON.stringify(events));
+};
+
+export const createDividendId = createLedgerId;
+
+// --- Amounts ---
+
+export const supplementaryPremium = (cashAmount: number): number => {
+  return cashAmount >= SUPPLEMENTARY_PREMIUM_THRESHOLD ? Math.round(cashAmount * SUPPLEMENTARY_PREMIUM_RATE) : 0;
+};
+
+// Cash and new shares a holder of `quantity` shares is entitled to (shares rounded down)
+export const expectedPayout = (event: DividendEvent, quantity: number) => {
+  const cash = Math.round(event.cashPerShare * quantity);
+  const shares = Math.floor((event.stockPerShare / PAR_VALUE) * quantity);
+  return { cash, shares, premium: supplementaryPremium(cash) };
+};
+
+// Ledger entries that record a received payout: a DIVIDEND entry for the cash part and a
+// zero-cost BUY for stock dividends, which lowers the average cost as it should. Holdings typed
+// by hand (`tracked` false) take stock dividends on their typed quantity instead: a lone BUY
+// would open a ledger position holding only the new shares.
+export const receiptLedgerEntries = (
+  event: DividendEvent,
+  quantity: number,
+  cashReceived: number,
+  sharesReceived: number,
+  tracked: boolean
+): LedgerEntry[] => {
+  const date = event.payDate || event.exDate;
+  const entries: LedgerEntry[] = [];
+
+  if (cashReceived > 0 && quantity > 0) {
+    const gross = Math.round(event.cashPerShare * quantity);
+    entries.push({
+      id: createLedgerId(),
+      symbol: event.symbol,
+      type: 'DIVIDEND',
+      date,
+      price: event.cashPerShare,
+      quantity,
+      // Whatever was withheld (premium, remittance fee) is booked as the fee
+      fee: Math.max(0, gross - cashReceived),
+      tax: 0,
+      note: '現金股利',
+    });
+  }
+  if (sharesReceived > 0 && tracked) {
+    entries.push({
+      id: createLedgerId(),
+      symbol: event.symbol,
+      type: 'BUY',
+      date,
+      price: 0,
+      quantity: sharesReceived,
+      fee: 0,
+      tax: 0,
+      note: '股票股利',
+    });
+  }
+  return entries;
+};
+
+// --- Calendar ---
+
+export interface DividendCalendarItem {
+  event: DividendEvent;
+  quantity: number;
+  cash: number; // received if recorded, otherwise expected
+  shares: number;
+  received: boolean;
+}
+
+// Payments grouped by pay month (ex-date month when the pay date isn't known yet),
+// index 0 = January of `year`
+export const buildDividendCalendar = (
+  events: DividendEvent[],
+  year: number,
+  quantityFor: (event: DividendEvent) => number
+): DividendCalendarItem[][] => {
+  const months: DividendCalendarItem[][] = Array.from({ length: 12 }, () => []);
+
+  events.forEach(event => {
+    const date = event.payDate || event.exDate;
+    if (Number(date.slice(0, 4)) !== year) return;
+
+    const received = event.receivedCash !== undefined || event.receivedShares !== undefined;
+    const quantity = received ? (event.heldQuantity ?? 0) : quantityFor(event);
+    const expected = expectedPayout(event, quantity);
+
+    months[Number(date.slice(5, 7)) - 1].push({
+      event,
+      quantity,
+      cash: received ? (event.receivedCash ?? 0) : expected.cash - expected.premium,
+      shares: received ? (event.receivedShares ?? 0) : expected.shares,
+      received,
+    });
+  });
+
+  return months;
+};
+
+// --- Yield on cost ---
+
+export interface DividendYield {
+  trailingPerShare: number; // cash per share with ex-date in the last 12 months
+  forwardPerShare: number; // latest payment × payments per year
+  trailingYieldOnCost: number | null; // %
+  forwardYieldOnCost: number | null; // %
+  paymentsPerYear: number;
+}
+
+export const dividendYield = (events: DividendEvent[], symbol: string, averageCost: number, now = new Date()): DividendYield => {
+  const today = localIsoDate(now);
+  const yearAgo = localIsoDate(new Date(now.getFullYear() - 1, now.getMonth(), now.getDate()));
+
+  const own = events
+    .filter(e => e.symbol === symbol && e.cashPerShare > 0)
+    .sort((a, b) => a.exDate.localeCompare(b.exDate));
+  const trailing = own.filter(e => e.exDate > yearAgo && e.exDate <= today);
+  // Most recent declaration, including one whose ex-date is still ahead
+  const latest = own[own.length - 1];
+
+  const trailingPerShare = trailing.reduce((sum, e) => sum + e.cashPerShare, 0);
+  const paymentsPerYear = Math.max(1, trailing.length);
+  const forwardPerShare = latest ? latest.cashPerShare * paymentsPerYear : 0;
+
+  const onCost = (perShare: number) => averageCost > 0 ? (perShare / averageCost) * 100 : null;
+
+  return {
+    trailingPerShare,
+    forwardPerShare,
+    trailingYieldOnCost: onCost(trailingPerShare),
+    forwardYieldOnCost: onCost(forwardPerShare),
+    paymentsPerYear,
+  };
+};
@@ -0,0 +1,265 @@
+import { Currency, ExchangeId } from "../types";
+
+// Exchanges, the markets they belong to and each market's trading calendar.
+// Symbols are stored as keys: Taiwan codes stay bare ("2330", the TWSE/TPEX listing decides
+// the venue), every other listing keeps a suffix ("AAPL.US", "0700.HK").
+
+export type MarketId = 'TW' | 'US' | 'HK' | 'JP';
+
+export interface TradingSession {
+  open: string; // HH:MM local time
+  close: string;
+}
+
+export interface Market {
+  id: MarketId;
+  label: string;
+  timeZone: string;
+  currency: Currency;
+  sessions: TradingSession[]; // in order; a gap between two sessions is the lunch break
+  holidays: string[]; // YYYY-MM-DD weekdays without trading (bundled; imported dates are added)
+}
+
+export interface Exchange {
+  id: ExchangeId;
+  label: string;
+  market: MarketId;
+  suffixes: string[]; // accepted input suffixes, the first one is used in symbol keys
+}
+
+export const MARKETS: Record<MarketId, Market> = {
+  TW: {
+    id: 'TW',
+    label: '台股',
+    timeZone: 'Asia/Taipei',
+    currency: 'TWD',
+    sessions: [{ open: '09:00', close: '13:30' }],
+    // TWSE closures, including the settlement-only days before Lunar New Year
+    holidays: [
+      '2025-01-01', '2025-01-23', '2025-01-24', '2025-01-27', '2025-01-28', '2025-01-29', '2025-01-30',
+      '2025-01-31', '2025-02-28', '2025-04-03', '2025-04-04', '2025-05-01', '2025-05-30', '2025-09-29',
+      '2025-10-06', '2025-10-10', '2025-10-24', '2025-12-25',
+      '2026-01-01', '2026-02-16', '2026-02-17', '2026-02-18', '2026-02-19', '2026-02-20', '2026-02-27',
+      '2026-04-03', '2026-04-06', '2026-05-01', '2026-06-19', '2026-09-25', '2026-09-28', '2026-10-09',
+      '2026-10-26', '2026-12-25',
+    ],
+  },
+  US: {
+    id: 'US',
+    label: '美股',
+    timeZone: 'America/New_York',
+    currency: 'USD',
+    sessions: [{ open: '09:30', close: '16:00' }],
+    holidays: [
+      '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+      '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+      '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25',
+      '2026-06-19', '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+    ],
+  },
+  HK: {
+    id: 'HK',
+    label: '港股',
+    timeZone: 'Asia/Hong_Kong',
+    currency: 'HKD',
+    sessions: [{ open: '09:30', close: '12:00' }, { open: '13:00', close: '16:00' }],
+    // HKEX full-day closures (general holidays falling on a weekday)
+    holidays: [
+      '2025-01-01', '2025-01-29', '2025-01-30', '2025-01-31', '2025-04-04', '2025-04-18', '2025-04-21',
+      '2025-05-01', '2025-05-05', '2025-07-01', '2025-10-01', '2025-10-07', '2025-10-29', '2025-12-25',
+      '2025-12-26',
+      '2026-01-01', '2026-02-17', '2026-02-18', '2026-02-19', '2026-04-03', '2026-04-06', '2026-04-07',
+      '2026-05-01', '2026-05-25', '2026-06-19', '2026-07-01', '2026-10-01', '2026-10-19', '2026-12-25',
+    ],
+  },
+  JP: {
+    id: 'JP',
+    label: '日股',
+    timeZone: 'Asia/Tokyo',
+    currency: 'JPY',
+    sessions: [{ open: '09:00', close: '11:30' }, { open: '12:30', close: '15:30' }],
+    // TSE closures: national holidays, substitute holidays and the year-end break (Dec 31 - Jan 3)
+    holidays: [
+      '2025-01-01', '2025-01-02', '2025-01-03', '2025-01-13', '2025-02-11', '2025-02-24', '2025-03-20',
+      '2025-04-29', '2025-05-05', '2025-05-06', '2025-07-21', '2025-08-11', '2025-09-15', '2025-09-23',
+      '2025-10-13', '2025-11-03', '2025-11-24', '2025-12-31',
+      '2026-01-01', '2026-01-02', '2026-01-12', '2026-02-11', '2026-02-23', '2026-03-20', '2026-04-29',
+      '2026-05-04', '2026-05-05', '2026-05-06', '2026-07-20', '2026-08-11', '2026-09-21', '2026-09-22',
+      '2026-09-23', '2026-10-12', '2026-11-03', '2026-11-23', '2026-12-31',
+    ],
+  },
+};
+
+export const EXCHANGES: Record<ExchangeId, Exchange> = {
+  TWSE: { id: 'TWSE', label: '臺灣證券交易所', market: 'TW', suffixes: ['TW'] },
+  TPEX: { id: 'TPEX', label: '櫃買中心', market: 'TW', suffixes: ['TWO'] },
+  NASDAQ: { id: 'NASDAQ', label: 'NASDAQ', market: 'US', suffixes: ['NASDAQ', 'OQ', 'O'] },
+  NYSE: { id: 'NYSE', label: 'NYSE', market: 'US', suffixes: ['NYSE', 'N'] },
+  US: { id: 'US', label: '美股 (未指定交易所)', market: 'US', suffixes: ['US'] },
+  HKEX: { id: 'HKEX', label: '香港交易所', market: 'HK', suffixes: ['HK'] },
+  TSE: { id: 'TSE', label: '東京證券交易所', market: 'JP', suffixes: ['T', 'JP'] },
+};
+
+const EXCHANGE_BY_SUFFIX: Record<string, ExchangeId> = {};
+(Object.values(EXCHANGES) as Exchange[]).forEach(ex => {
+  ex.suffixes.forEach(suffix => { EXCHANGE_BY_SUFFIX[suffix] = ex.id; });
+});
+
+// --- Symbol parsing ---
+
+export type SymbolParseResult =
+  | { ok: true; symbol: string; market: MarketId; exchange: ExchangeId | null }
+  | { ok: false; input: string; reason: string };
+
+// Listed Taiwan codes: 2330, 0050, 006208, 00679B
+const TAIWAN_CODE = /^\d{4,6}[A-Z]?$/;
+const FOREIGN_CODE = /^[A-Z0-9][A-Z0-9.\-]*$/;
+
+// "2330", "2330.TW", "6488.TWO", "AAPL.US", "BRK.B.NYSE", "700.HK". A bare code is only accepted
+// when it is a Taiwan code; anything else needs a suffix naming its exchange.
+export const parseSymbolInput = (raw: string): SymbolParseResult => {
+  const input = raw.trim().toUpperCase();
+  const dot = input.lastIndexOf('.');
+  const suffix = dot > 0 ? input.slice(dot + 1) : '';
+  const exchange = EXCHANGE_BY_SUFFIX[suffix];
+
+  if (!exchange) {
+    if (TAIWAN_CODE.test(input)) return { ok: true, symbol: input, market: 'TW', exchange: null };
+    return { ok: false, input, reason: '請加上交易所後綴，例如 AAPL.US、0700.HK、2330.TW' };
+  }
+
+  let code = input.slice(0, dot);
+  const { market } = EXCHANGES[exchange];
+  if (market === 'TW') {
+    if (!TAIWAN_CODE.test(code)) return { ok: false, input, reason: '不是有效的台股代碼' };
+    return { ok: true, symbol: code, market, exchange };
+  }
+  if (!FOREIGN_CODE.test(code)) return { ok: false, input, reason: '代碼格式不正確' };
+  // HKEX codes are four digits with leading zeros
+  if (market === 'HK' && /^\d{1,4}$/.test(code)) code = code.padStart(4, '0');
+  return { ok: true, symbol: `${code}.${EXCHANGES[exchange].suffixes[0]}`, market, exchange };
+};
+
+// Canonical key for a symbol as typed by a user or returned by the model
+export const toSymbolKey = (raw: string): string => {
+  const parsed = parseSymbolInput(raw.trim().split(/\s+/)[0]);
+  return parsed.ok ? parsed.symbol : raw.trim().toUpperCase().split(/\s+/)[0];
+};
+
+const suffixExchange = (symbol: string): ExchangeId | undefined => {
+  const dot = symbol.lastIndexOf('.');
+  return dot > 0 ? EXCHANGE_BY_SUFFIX[symbol.slice(dot + 1)] : undefined;
+};
+
+// The exchange a symbol key belongs to. Bare Taiwan keys need the quote source (TWSE/TPEX)
+// to tell the venue; null when it isn't known yet.
+export const symbolExchange = (symbol: string, quoteSource?: string): ExchangeId | null => {
+  const fromSuffix = suffixExchange(symbol);
+  if (fromSuffix) return fromSuffix;
+  return quoteSource === 'TWSE' || quoteSource === 'TPEX' ? quoteSource : null;
+};
+
+export const symbolMarket = (symbol: string): MarketId => {
+  const exchange = suffixExchange(symbol);
+  return exchange ? EXCHANGES[exchange].market : 'TW';
+};
+
+// Ticker without the exchange suffix, as it is quoted on its exchange
+export const symbolCode = (symbol: string): string =>
+  suffixExchange(symbol) ? symbol.slice(0, symbol.lastIndexOf('.')) : symbol;
+
+// --- Trading calendar ---
+
+const HOLIDAY_STORAGE_KEY = 'finance_market_holidays';
+
+// Calendar checks run per symbol on every render, so the stored list is read once
+let importedHolidays: Partial<Record<MarketId, string[]>> | null = null;
+
+const loadImportedHolidays = (): Partial<Record<MarketId, string[]>> => {
+  if (importedHolidays) return importedHolidays;
+  try {
+    const saved = localStorage.getItem(HOLIDAY_STORAGE_KEY);
+    importedHolidays = saved ? JSON.parse(saved) : {};
+  } catch {
+    importedHolidays = {};
+  }
+  return importedHolidays;
+};
+
+// Bundled holidays plus the ones fetched from the exchange
+export const marketHolidays = (marketId: MarketId): string[] => {
+  const imported = loadImportedHolidays()[marketId] || [];
+  return imported.length > 0 ? [...MARKETS[marketId].holidays, ...imported] : MARKETS[marketId].holidays;
+};
+
+export const saveMarketHolidays = (marketId: MarketId, dates: string[]) => {
+  const imported = { ...loadImportedHolidays() };
+  imported[marketId] = Array.from(new Set([...(imported[marketId] || []), ...dates])).sort();
+  importedHolidays = imported;
+  localStorage.setItem(HOLIDAY_STORAGE_KEY, JSON.stringify(imported));
+};
+
+// Whether a calendar year is covered by any holiday entry, bundled or imported
+export const hasHolidayCalendar = (marketId: MarketId, year: number): boolean =>
+  marketHolidays(marketId).some(d => d.startsWith(`${year}-`));
+
+export type SessionState = 'PRE_OPEN' | 'OPEN' | 'BREAK' | 'CLOSED' | 'NON_TRADING_DAY';
+
+export interface MarketClock {
+  market: Market;
+  localDate: string; // YYYY-MM-DD in the market's time zone
+  localTime: string; // HH:MM
+  state: SessionState;
+}
+
+const localParts = (timeZone: string, now: Date) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+};
+
+export const isTradingDay = (market: Market, isoDate: string): boolean => {
+  const weekday = new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !marketHolidays(market.id).includes(isoDate);
+};
+
+// Latest trading day strictly before a YYYY-MM-DD date
+export const previousTradingDate = (market: Market, isoDate: string): string => {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  do {
+    d.setUTCDate(d.getUTCDate() - 1);
+  } while (!isTradingDay(market, d.toISOString().slice(0, 10)));
+  return d.toISOString().slice(0, 10);
+};
+
+// Where a market is in its trading day right now; HH:MM strings compare in time order
+export const marketClock = (marketId: MarketId, now: Date = new Date()): MarketClock => {
+  const market = MARKETS[marketId];
+  const { date, time } = localParts(market.timeZone, now);
+
+  let state: SessionState;
+  if (!isTradingDay(market, date)) {
+    state = 'NON_TRADING_DAY';
+  } else if (time < market.sessions[0].open) {
+    state = 'PRE_OPEN';
+  } else if (time >= market.sessions[market.sessions.length - 1].close) {
+    state = 'CLOSED';
+  } else {
+    state = market.sessions.some(s => time >= s.open && time < s.close) ? 'OPEN' : 'BREAK';
+  }
+  return { market, localDate: date, localTime: time, state };
+};
+
+export const formatSessions = (market: Market): string =>
+  market.sessions.map(s => `${s.open}-${s.close}`).join('、');
@@ -0,0 +1,219 @@
+import { Currency, FxRates, FxSettings, FxSource, StockAnalysis } from "../types";
+import { MARKETS, symbolMarket } from "./exchanges";
+
+// Exchange rates are stored as TWD per one unit of each currency, so converting between
+// any two currencies goes through TWD.
+
+export const CURRENCIES: Currency[] = ['TWD', 'USD', 'HKD', 'JPY', 'CNY', 'EUR'];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  TWD: '台幣',
+  USD: '美元',
+  HKD: '港幣',
+  JPY: '日圓',
+  CNY: '人民幣',
+  EUR: '歐元',
+};
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  TWD: 'NT$',
+  USD: 'US$',
+  HKD: 'HK$',
+  JPY: 'JP¥',
+  CNY: 'CN¥',
+  EUR: '€',
+};
+
+export const FX_SOURCE_LABELS: Record<FxSource, string> = {
+  MANUAL: '手動輸入',
+  FILE: '匯入檔案',
+  PROVIDER: '線上匯率',
+};
+
+export const DEFAULT_FX_RATES: FxRates = {
+  TWD: 1,
+  USD: 31,
+  HKD: 4,
+  JPY: 0.21,
+  CNY: 4.3,
+  EUR: 34,
+};
+
+const FX_SETTINGS_STORAGE_KEY = 'finance_fx_settings';
+const SYMBOL_CURRENCY_STORAGE_KEY = 'finance_symbol_currencies';
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as string[]).includes(value);
+
+// --- Conversion ---
+
+export const convert = (amount: number, from: Currency, to: Currency, rates: FxRates): number => {
+  if (from === to) return amount;
+  return amount * rates[from] / rates[to];
+};
+
+export const toTwd = (amount: number, from: Currency, rates: FxRates) => convert(amount, from, 'TWD', rates);
+
+export const formatMoney = (amount: number, currency: Currency, maxFractionDigits = 0): string =>
+  `${CURRENCY_SYMBOLS[currency]}${amount.toLocaleString(undefined, { maximumFractionDigits: maxFractionDigits })}`;
+
+// Fills missing or invalid entries so every currency has a usable rate
+export const normalizeRates = (rates: Partial<Record<string, unknown>> = {}): FxRates => {
+  const normalized = { ...DEFAULT_FX_RATES };
+  CURRENCIES.forEach(c => {
+    const rate = Number(rates[c]);
+    if (Number.isFinite(rate) && rate > 0) normalized[c] = rate;
+  });
+  normalized.TWD = 1;
+  return normalized;
+};
+
+// --- Exposure ---
+
+export interface CurrencyAmount {
+  currency: Currency;
+  amount: number; // in that currency
+}
+
+export interface FxExposureRow {
+  currency: Currency;
+  amount: number; // native amount
+  baseAmount: number; // converted to the base currency
+  share: number; // 0-1 of the converted total
+}
+
+// Groups amounts by currency, largest exposure first
+export const fxExposure = (items: CurrencyAmount[], baseCurrency: Currency, rates: FxRates): FxExposureRow[] => {
+  const byCurrency = new Map<Currency, number>();
+  items.forEach(({ currency, amount }) => {
+    if (amount !== 0) byCurrency.set(currency, (byCurrency.get(currency) || 0) + amount);
+  });
+  const rows = Array.from(byCurrency.entries()).map(([currency, amount]) => ({
+    currency,
+    amount,
+    baseAmount: convert(amount, currency, baseCurrency, rates),
+    share: 0,
+  }));
+  const total = rows.reduce((sum, r) => sum + r.baseAmount, 0);
+  rows.forEach(r => { r.share = total > 0 ? r.baseAmount / total : 0; });
+  return rows.sort((a, b) => b.baseAmount - a.baseAmount);
+};
+
+// --- Rate file import ---
+
+// Accepts a JSON object ({"USD": 31.5}), a JSON array ([{"currency": "USD", "rate": 31.5}])
+// or CSV lines "USD,31.5" (a header row is skipped). Rates are TWD per unit.
+export const parseFxFile = (text: string): Partial<FxRates> => {
+  const trimmed = text.trim();
+  const rates: Partial<FxRates> = {};
+  const put = (currency: unknown, rate: unknown) => {
+    const code = String(currency ?? '').trim().toUpperCase();
+    const value = Number(String(rate ?? '').replace(/,/g, '').trim());
+    if (isCurrency(code) && Number.isFinite(value) && value > 0) rates[code] = value;
+  };
+
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error("FX JSON must be an array or an object");
+    parsed.forEach((row: Record<string, unknown>) => put(row?.currency, row?.rate));
+  } else if (trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    Object.entries(parsed).forEach(([currency, rate]) => put(currency, rate));
+  } else {
+    trimmed.split(/\r?\n/).forEach(line => {
+      const [currency, rate] = line.split(/[,\t]/);
+      put(currency, rate);
+    });
+  }
+
+  if (Object.keys(rates).length === 0) throw new Error("No exchange rates found in file");
+  return rates;
+};
+
+// --- Provider adapter ---
+
+// A source of current exchange rates, in TWD per unit
+export interface FxProvider {
+  id: string;
+  label: string;
+  getRates: () => Promise<{ rates: Partial<FxRates>; asOf: string }>;
+}
+
+// open.er-api.com quotes units of each currency per one TWD; invert to TWD per unit
+export const openErApiProvider: FxProvider = {
+  id: 'open-er-api',
+  label: 'ExchangeRate-API (open.er-api.com)',
+  getRates: async () => {
+    const res = await fetch('https://open.er-api.com/v6/latest/TWD');
+    if (!res.ok) throw new Error(`FX request failed: ${res.status}`);
+    const json = await res.json();
+    if (json.result !== 'success' || !json.rates) throw new Error("FX provider returned no rates");
+
+    const rates: Partial<FxRates> = {};
+    CURRENCIES.forEach(c => {
+      const perTwd = Number(json.rates[c]);
+      if (Number.isFinite(perTwd) && perTwd > 0) rates[c] = 1 / perTwd;
+    });
+    const updated = json.time_last_update_unix ? new Date(json.time_last_update_unix * 1000) : new Date();
+    return { rates, asOf: updated.toISOString().slice(0, 10) };
+  },
+};
+
+// Explicit override, e.g. a fake provider when working offline
+let providerOverride: FxProvider | null = null;
+
+export const setFxProvider = (provider: FxProvider | null) => {
+  providerOverride = provider;
+};
+
+export const getFxProvider = (): FxProvider => providerOverride || openErApiProvider;
+
+// --- Persistence ---
+
+export const DEFAULT_FX_SETTINGS: FxSettings = {
+  baseCurrency: 'TWD',
+  source: 'MANUAL',
+  rates: DEFAULT_FX_RATES,
+  asOf: '',
+};
+
+export const loadFxSettings = (): FxSettings => {
+  try {
+    const saved = localStorage.getItem(FX_SETTINGS_STORAGE_KEY);
+    if (!saved) return DEFAULT_FX_SETTINGS;
+    const parsed = JSON.parse(saved);
+    return {
+      baseCurrency: isCurrency(parsed.baseCurrency) ? parsed.baseCurrency : 'TWD',
+      source: parsed.source || 'MANUAL',
+      rates: normalizeRates(parsed.rates),
+      asOf: parsed.asOf || '',
+    };
+  } catch {
+    return DEFAULT_FX_SETTINGS;
+  }
+};
+
+export const saveFxSettings = (settings: FxSettings) => {
+  localStorage.setItem(FX_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Currencies the user set by hand for individual symbols
+export const loadSymbolCurrencies = (): Record<string, Currency> => {
+  try {
+    const saved = localStorage.getItem(SYMBOL_CURRENCY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveSymbolCurrencies = (currencies: Record<string, Currency>) => {
+  localStorage.setItem(SYMBOL_CURRENCY_STORAGE_KEY, JSON.stringify(currencies));
+};
+
+// A holding's currency: the user's tag, else the quote's currency, else its market's currency
+export const holdingCurrency = (
+  symbol: string,
+  overrides: Record<string, Currency>,
+  stock?: StockAnalysis
+): Currency => overrides[symbol] || stock?.currency || MARKETS[symbolMarket(symbol)].currency;
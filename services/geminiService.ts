@@ -1,177 +1,489 @@
-import { GoogleGenAI } from "@google/genai";
-import { StockAnalysis, RetirementPlan, RetirementResult } from "../types";
-
-// Helper to get key from storage or env
-const getApiKey = (): string | null => {
-  // 1. Check LocalStorage
-  const stored = localStorage.getItem('gemini_api_key');
-  if (stored) return stored;
-  
-  // 2. Check Environment Variables
+import { StockAnalysis, AnalysisSource, ChatMessage, AIToolCall, RetirementPlan, RetirementResult, MarketQuote, AnalysisBatchResult, TechnicalIndicators, MoneyBasis } from "../types";
+import { getMarketDataProvider, getMarketDataProviderId } from "./marketData";
+import { createJsonArrayReader, normalizeSources, normalizeSymbol, parseJsonPayload, validateAnalysisBatch } from "./stockSchema";
+import { loadHistoryRange, syncHistory } from "./priceHistory";
+import { computeIndicators, formatIndicatorsForPrompt } from "./indicators";
+import { WITHDRAWAL_STRATEGY_LABELS } from "./decumulation";
+import { MONEY_BASIS_LABELS, targetPensionAtRetirement, toMoneyBasis } from "./inflation";
+import { laborInsuranceBenefit, laborInsuranceIncomeAt, laborPensionBalanceAfter } from "./laborPension";
+import { findSecurity, loadSecurityMaster } from "./securityMaster";
+import { EXCHANGES, MarketId, SessionState, formatSessions, marketClock, symbolExchange, symbolMarket } from "./exchanges";
+import { sessionPriceDate, stampQuote } from "./quoteFreshness";
+import { AIGrounding, AIGroundingPage, AIRequest, abortError, getAIModel, getAIProvider } from "./aiProvider";
+import { AssistantContext, createAssistantTools, retirementProjectionTool } from "./assistant";
+import { portfolioTotals } from "./portfolioValue";
+
+// --- Response cache ---
+// Analyses are cached per feature, AI provider and model, quote source, symbol set and trading
+// session, so reloads and repeated clicks within a session reuse one model call. The session is
+// part of the key: a market opening or closing always misses.
+
+const RESPONSE_CACHE_STORAGE_KEY = 'finance_ai_response_cache';
+const MAX_CACHE_ENTRIES = 30;
+const CACHE_TTL_OPEN_MS = 10 * 60 * 1000; // prices move while a market trades
+const CACHE_TTL_CLOSED_MS = 12 * 60 * 60 * 1000; // nothing new until the next session
+
+interface CacheEntry {
+  value: unknown;
+  cachedAt: string; // ISO
+  expiresAt: number; // epoch ms
+}
+
+export interface AnalysisOptions {
+  forceRefresh?: boolean; // skip cached results (a call already in flight is still shared)
+  // Called as each batch of symbols finishes, so rows can be shown before the whole run ends
+  onBatch?: (symbols: string[], result: AnalysisBatchResult) => void;
+  // Called for each row as soon as it has streamed in and validated (not for cached results)
+  onStock?: (stock: StockAnalysis) => void;
+  signal?: AbortSignal; // cancels the model calls; the run then rejects with the abort error
+}
+
+const loadResponseCache = (): Record<string, CacheEntry> => {
   try {
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env.VITE_API_KEY) {
-      // @ts-ignore
-      return import.meta.env.VITE_API_KEY;
-    }
-  } catch (e) {
-    // Ignore error
+    const saved = localStorage.getItem(RESPONSE_CACHE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
   }
+};
 
+const storeResponse = (key: string, entry: CacheEntry) => {
+  const now = Date.now();
+  const live = Object.entries(loadResponseCache())
+    .filter(([, e]) => e.expiresAt > now)
+    .sort(([, a], [, b]) => b.expiresAt - a.expiresAt)
+    .slice(0, MAX_CACHE_ENTRIES - 1);
   try {
-    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-      return process.env.API_KEY;
-    }
-  } catch (e) {
-    // Ignore
+    localStorage.setItem(RESPONSE_CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries([[key, entry], ...live])));
+  } catch (error) {
+    // A full storage quota only costs the cache
+    console.warn("Failed to store AI response cache:", error);
+  }
+};
+
+export const clearResponseCache = () => {
+  localStorage.removeItem(RESPONSE_CACHE_STORAGE_KEY);
+};
+
+// Identical requests made while one is running share it. Each caller gets the rows streamed so
+// far and those still to come, and can cancel on its own: the request itself is only aborted
+// once every caller has cancelled.
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+  streamed: StockAnalysis[];
+  listeners: Set<(stock: StockAnalysis) => void>;
+}
+
+const inFlight = new Map<string, SharedRequest>();
+
+const joinRequest = <T>(key: string, shared: SharedRequest, { signal, onStock }: AnalysisOptions): Promise<T> => {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const listener = (stock: StockAnalysis) => onStock?.(stock);
+  shared.streamed.forEach(listener);
+  shared.listeners.add(listener);
+  shared.callers += 1;
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      shared.listeners.delete(listener);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      leave();
+      shared.callers -= 1;
+      if (shared.callers === 0) {
+        shared.controller.abort();
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+      }
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort);
+    shared.promise.then(
+      value => { leave(); resolve(value as T); },
+      error => { leave(); reject(error); }
+    );
+  });
+};
+
+const isTrading = (id: MarketId) => {
+  const { state } = marketClock(id);
+  return state === 'OPEN' || state === 'BREAK';
+};
+
+const sessionKey = (markets: MarketId[]) => markets.map(id => {
+  const clock = marketClock(id);
+  return `${id}:${clock.localDate}:${clock.state === 'BREAK' ? 'OPEN' : clock.state}`;
+}).join(',');
+
+// The value comes back with cachedAt set when it was served from the cache
+const cachedRequest = async <T extends { cachedAt?: string }>(
+  feature: string,
+  model: string,
+  symbols: string[],
+  options: AnalysisOptions,
+  request: (shared: AnalysisOptions) => Promise<T>, // called with the shared request's signal and row callback
+  isCacheable: (value: T) => boolean
+): Promise<T> => {
+  const markets = Array.from(new Set(symbols.length > 0 ? symbols.map(symbolMarket) : ['TW' as MarketId])).sort();
+  const key = [feature, getAIProvider().id, model, getMarketDataProviderId(), sessionKey(markets), [...symbols].sort().join(',')].join('|');
+
+  if (!options.forceRefresh) {
+    const cached = loadResponseCache()[key];
+    if (cached && cached.expiresAt > Date.now()) return { ...(cached.value as T), cachedAt: cached.cachedAt };
+  }
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const created: SharedRequest = { promise: Promise.resolve(), controller: new AbortController(), callers: 0, streamed: [], listeners: new Set() };
+    const onStock = (stock: StockAnalysis) => {
+      created.streamed.push(stock);
+      created.listeners.forEach(listener => listener(stock));
+    };
+    created.promise = request({ signal: created.controller.signal, onStock })
+      .then(value => {
+        if (isCacheable(value)) {
+          const ttl = markets.some(isTrading) ? CACHE_TTL_OPEN_MS : CACHE_TTL_CLOSED_MS;
+          storeResponse(key, { value, cachedAt: new Date().toISOString(), expiresAt: Date.now() + ttl });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      });
+    // Joiners handle the outcome; this keeps a request nobody waits for anymore from reporting unhandled
+    created.promise.catch(() => undefined);
+    inFlight.set(key, created);
+    shared = created;
   }
-  
-  return null;
+  return joinRequest<T>(key, shared, options);
 };
 
-// Initialize Gemini Client dynamically
-const getAIClient = () => {
-  const apiKey = getApiKey();
-  if (!apiKey) throw new Error("API Key missing");
-  return new GoogleGenAI({ apiKey });
+const SESSION_PRICE_RULES: Record<SessionState, string> = {
+  PRE_OPEN: "尚未開盤，請以「上一個交易日」的收盤價 (Previous Close) 為準。",
+  OPEN: "盤中，價格為「即時成交價」 (Real-time Price)。",
+  BREAK: "午間休市，價格為上午盤最後成交價。",
+  CLOSED: "已收盤，請以「今天」的收盤價 (Closing Price) 為準，不要用昨天的價格。",
+  NON_TRADING_DAY: "今日休市，請以「最近一個交易日」的收盤價為準。",
 };
 
-// Helper function to extract JSON from Markdown code blocks
-const extractJson = (text: string): any => {
+// Local time and session state of each market the prompt is about
+const getSessionInstruction = (markets: MarketId[]) => {
+  const lines = Array.from(new Set(markets)).map(id => {
+    const clock = marketClock(id);
+    const { market } = clock;
+    return `- ${market.label} (${market.timeZone} ${clock.localDate} ${clock.localTime}，交易時段 ${formatSessions(market)})：${SESSION_PRICE_RULES[clock.state]}`;
+  });
+
+  return `
+    **各市場目前時間與股價時間判定規則 (極重要)：**
+    ${lines.join("\n    ")}
+    
+    請務必檢查 Google Search 結果的時間戳記，確保符合上述規則。
+  `;
+};
+
+// Fetch quotes from the configured provider; a provider outage shouldn't block the analysis
+const fetchQuotes = async (symbols: string[]): Promise<Record<string, MarketQuote>> => {
   try {
-    // Try to find JSON inside code blocks ```json ... ```
-    const jsonMatch = text.match(/```json([\s\S]*?)```/);
-    if (jsonMatch && jsonMatch[1]) {
-      return JSON.parse(jsonMatch[1]);
-    }
-    // Try to find array brackets if code block is missing
-    const arrayMatch = text.match(/\[([\s\S]*?)\]/);
-    if (arrayMatch) {
-      return JSON.parse(arrayMatch[0]);
+    const quotes = await getMarketDataProvider().getQuotes(symbols);
+    const now = new Date();
+    return Object.fromEntries(Object.entries(quotes).map(([symbol, quote]) => [symbol, stampQuote(quote, now)]));
+  } catch (error) {
+    console.error("Error fetching quotes:", error);
+    return {};
+  }
+};
+
+// Quote fields always come from the market data provider, never from the model
+const mergeQuote = (item: StockAnalysis, quote?: MarketQuote): StockAnalysis => ({
+  ...item,
+  name: quote?.name || item.name,
+  currentPrice: quote ? quote.currentPrice : 0,
+  high52Week: quote ? quote.high52Week : 0,
+  low52Week: quote ? quote.low52Week : 0,
+  quoteSource: quote?.source,
+  quoteAsOf: quote?.asOf,
+  quoteTime: quote?.time,
+  quoteFetchedAt: quote?.fetchedAt,
+  quoteSession: quote?.session,
+  currency: quote?.currency,
+});
+
+// Symbols whose history syncs at once; each sync is a run of monthly open-data requests, and
+// TWSE throttles bursts from one client
+const HISTORY_SYNC_CONCURRENCY = 3;
+
+// Indicators from stored history (synced first); missing history yields null, not an error
+const fetchIndicators = async (symbols: string[]): Promise<Record<string, TechnicalIndicators | null>> => {
+  const result: Record<string, TechnicalIndicators | null> = {};
+  const queue = [...symbols];
+  const worker = async () => {
+    for (let symbol = queue.shift(); symbol !== undefined; symbol = queue.shift()) {
+      let bars;
+      try {
+        bars = await syncHistory(symbol, '1Y');
+      } catch (error) {
+        console.warn(`Price history unavailable for ${symbol}:`, error);
+        bars = loadHistoryRange(symbol, '1Y');
+      }
+      result[symbol] = computeIndicators(bars);
     }
-    // Fallback: try parsing the whole text
-    return JSON.parse(text);
-  } catch (e) {
-    console.error("Failed to parse JSON from AI response:", text);
-    return [];
+  };
+  await Promise.all(Array.from({ length: Math.min(HISTORY_SYNC_CONCURRENCY, symbols.length) }, worker));
+  return result;
+};
+
+// Quote table handed to the model as ground truth
+const formatQuotesForPrompt = (symbols: string[], quotes: Record<string, MarketQuote>): string => {
+  return symbols.map(s => {
+    const q = quotes[s];
+    if (!q) return `- ${s}: 無行情資料 (請僅做質性分析)`;
+    return `- ${s} ${q.name || ''}: 現價 ${q.currentPrice}${q.currency ? ` ${q.currency}` : ''} (${q.asOf})，52週高 ${q.high52Week}，52週低 ${q.low52Week}`;
+  }).join("\n");
+};
+
+interface StreamedResponse {
+  text: string;
+  spans: { start: number; end: number }[]; // offsets of each array element in text
+  grounding: AIGrounding[];
+}
+
+// Streams a search-grounded model call, handing over each element of the JSON array answer as
+// soon as it is complete. Returns the whole response for the final validation.
+const streamJsonArray = async (
+  request: AIRequest,
+  onElement: (element: unknown) => void
+): Promise<StreamedResponse> => {
+  const reader = createJsonArrayReader();
+  let text = '';
+  const grounding: AIGrounding[] = [];
+  for await (const chunk of getAIProvider().stream({ ...request, search: true })) {
+    text += chunk.text;
+    reader.push(chunk.text).forEach(onElement);
+    if (chunk.grounding) grounding.push(chunk.grounding);
   }
+  return { text, spans: reader.spans(), grounding };
 };
 
-// Specific corrections for Taiwan stocks based on user feedback and common errors
-const PRE_DEFINED_MAPPINGS: Record<string, string> = {
-  "2834": "2834 臺企銀", // Often confused with TCC
-  "304": "3042 晶技",   // User typo correction
-  "3042": "3042 晶技",
-  "4564": "4564 元翎",
-  "6890": "6890 來億-KY",
-  "1101": "1101 台泥",
-  "9904": "9904 寶成"
+// --- Sources ---
+
+// Grounding comes back for the whole answer: each support's text segment is located in the
+// answer and credited to the array element it falls in
+const groundedPagesByElement = (response: StreamedResponse): AIGroundingPage[][] => {
+  const pages = response.spans.map(() => [] as AIGroundingPage[]);
+  response.grounding.forEach(grounding => {
+    grounding.supports.forEach(support => {
+      const at = response.text.indexOf(support.text);
+      const index = response.spans.findIndex(span => at >= span.start && at < span.end);
+      if (at < 0 || index < 0) return;
+      support.pageIndices.forEach(i => {
+        const page = grounding.pages[i];
+        if (page?.uri && !pages[index].some(p => p.uri === page.uri)) pages[index].push(page);
+      });
+    });
+  });
+  return pages;
 };
 
-const getTaipeiTimeInstruction = () => {
-  const now = new Date();
-  
-  // Convert to Taipei Time to calculate hour/minute
-  const taipeiTime = new Date(now.toLocaleString("en-US", {timeZone: "Asia/Taipei"}));
-  const hour = taipeiTime.getHours();
-  const minute = taipeiTime.getMinutes();
-  const timeVal = hour * 100 + minute; // e.g. 1330 for 13:30
-
-  const options: Intl.DateTimeFormatOptions = { 
-    timeZone: 'Asia/Taipei', 
-    hour12: false,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit'
-  };
-  const timeString = now.toLocaleString('zh-TW', options);
-
-  let priceRule = "";
-  if (timeVal >= 1330) {
-    priceRule = "現在時間已過 13:30 (台股收盤)，請務必提供「今天」的收盤價 (Closing Price)。不要提供昨天的，也不要提供盤中價格。";
-  } else if (timeVal < 900) {
-    priceRule = "現在時間早於 09:00 (尚未開盤)，請務必提供「上一個交易日」的收盤價 (Previous Close)。";
-  } else {
-    priceRule = "現在時間介於 09:00 - 13:30 (盤中)，請提供「即時成交價」 (Real-time Price)。";
+// Search results name their site (domain or title), their URI is a redirect
+const isSameSite = (url: string, page: AIGroundingPage): boolean => {
+  const site = (page.domain || page.title || '').toLowerCase();
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    return site !== '' && (host === site || host.endsWith(`.${site}`));
+  } catch {
+    return false;
   }
-  
-  return `
-    現在台北時間是：${timeString}。
+};
+
+// Merges the sources the model listed with the grounded search results for one element.
+// Listed sources count as grounded when a search result is from the same site; sources
+// published before the session's price date are flagged stale.
+const attachSources = (element: unknown, pages: AIGroundingPage[], now: Date): unknown => {
+  if (!element || typeof element !== 'object') return element;
+  const item = element as Record<string, unknown>;
+  const priceDate = sessionPriceDate(symbolMarket(normalizeSymbol(String(item.symbol ?? ''))), now);
+
+  const listed = normalizeSources(item.sources).map(source => ({
+    ...source,
+    grounded: pages.some(page => isSameSite(source.url, page)),
+  }));
+  const searched = pages
+    .filter(page => !listed.some(source => isSameSite(source.url, page)))
+    .map((page): AnalysisSource => ({ url: page.uri, title: page.title || page.domain || page.uri, grounded: true }));
+
+  return {
+    ...item,
+    sources: [...listed, ...searched].map(source => ({
+      ...source,
+      stale: source.publishedAt ? source.publishedAt < priceDate : undefined,
+    })),
+  };
+};
+
+// The parsed answer with sources attached to every element
+const withSources = (payload: unknown, response: StreamedResponse): unknown => {
+  if (!Array.isArray(payload)) return payload;
+  const now = new Date();
+  // Elements the reader couldn't parse would shift the spans; credit grounding only when they line up
+  const pages = payload.length === response.spans.length ? groundedPagesByElement(response) : [];
+  return payload.map((element, i) => attachSources(element, pages[i] || [], now));
+};
+
+// Validation failures are retried for just the failing symbols, up to this many calls
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+// Symbols per model call; small batches come back sooner and fail independently
+const ANALYSIS_BATCH_SIZE = 5;
+
+// One model call for a set of symbols, validated per symbol
+const requestPortfolioAnalysis = async (
+  symbols: string[],
+  quotes: Record<string, MarketQuote>,
+  indicators: Record<string, TechnicalIndicators | null>,
+  options: AnalysisOptions
+): Promise<AnalysisBatchResult> => {
+
+  // Name every symbol so the model can't confuse codes: Taiwan codes from the security master,
+  // foreign listings by their exchange
+  const securities = loadSecurityMaster();
+  const querySymbols = symbols.map(s => {
+    const exchange = symbolExchange(s);
+    if (exchange) return `${s} (${EXCHANGES[exchange].label})`;
+    const record = findSecurity(securities, s);
+    return record ? `${s} ${record.name}` : s;
+  }).join(", ");
+
+  const timeInstruction = getSessionInstruction(symbols.map(symbolMarket));
+
+  const prompt = `
+    你是一個專業的金融分析系統。請使用 Google Search 查詢以下股票的「正確繁體中文公司名稱」與最新新聞：${querySymbols}。
     
-    **股價時間判定規則 (極重要)：**
-    ${priceRule}
+    ${timeInstruction}
     
-    請務必檢查 Google Search 結果的時間戳記，確保符合上述規則。
+    **行情資料 (由資料源提供，為唯一正確的價格，請勿自行查詢或修改)：**
+    ${formatQuotesForPrompt(symbols, quotes)}
+    
+    **技術指標 (由系統依歷史股價計算，為確定數值，請以此為推論依據，不要自行臆測)：**
+    ${symbols.map(s => formatIndicatorsForPrompt(s, indicators[s])).join("\n    ")}
+    
+    **極重要 - 代碼校正指令：**
+    上方清單中的代碼與公司名稱來自證券主檔，為正確對應，請嚴格遵守，不可與其他公司混淆。
+    
+    **一般指令：**
+    1. 務必使用 Google Search 獲取真實新聞與基本面資訊，不要使用估算值。
+    2. 不需要回傳現價與 52 週高低點，系統會直接使用上方的行情資料。
+    3. 請以上方行情資料與技術指標為基準，針對持有狀況給出建議 (BUY/SELL/HOLD) 與建議買賣價，並在 analysis 中說明引用了哪些指標。
+    4. sources 列出 analysis 實際引用的新聞或資料頁面 (標題、網址、發布日期)，只能列出搜尋到的真實網址，不可編造。
+    
+    請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
+    [
+      {
+        "symbol": "股票代碼，與上方清單寫法完全相同 (e.g. 0050、AAPL.US)",
+        "name": "股票名稱 (繁體中文)",
+        "marketCap": "市值 (e.g. 3000億)",
+        "suggestBuyPrice": 數字 (建議買入價),
+        "suggestSellPrice": 數字 (建議賣出價),
+        "recommendation": "BUY" | "SELL" | "HOLD",
+        "analysis": "簡短分析 (包含查到的最新新聞或價格資訊)",
+        "projectedAnnualYield": "預估年化殖利率 (e.g. 5-6%)",
+        "exampleScenario": "簡短操作建議",
+        "sources": [{ "title": "新聞標題", "url": "https://...", "publishedAt": "YYYY-MM-DD" }]
+      }
+    ]
   `;
+
+  const prepare = (item: Record<string, unknown>) => mergeQuote(item as unknown as StockAnalysis, quotes[String(item.symbol)]);
+
+  // Rows go out as they stream in; failures are only decided on the full response
+  // Grounding metadata arrives with the last chunks, so streamed rows carry only the listed sources
+  const streamed: StockAnalysis[] = [];
+  const request: AIRequest = { feature: 'portfolio', model: getAIModel('portfolio'), prompt, symbols, signal: options.signal };
+  const response = await streamJsonArray(request, element => {
+    const [stock] = validateAnalysisBatch([attachSources(element, [], new Date())], symbols, prepare).stocks;
+    if (!stock) return;
+    streamed.push(stock);
+    options.onStock?.(stock);
+  });
+
+  let payload: unknown;
+  try {
+    payload = parseJsonPayload(response.text);
+  } catch (e) {
+    // Streamed rows already replaced the previous ones on screen, so they stand; only the rest failed
+    console.error("Failed to parse JSON from AI response:", response.text);
+    return {
+      stocks: streamed,
+      failures: symbols
+        .filter(symbol => !streamed.some(stock => stock.symbol === symbol))
+        .map(symbol => ({ symbol, reason: 'AI 回應無法解析為 JSON' })),
+    };
+  }
+
+  return validateAnalysisBatch(withSources(payload, response), symbols, prepare);
 };
 
-export const analyzePortfolio = async (symbols: string[]): Promise<StockAnalysis[]> => {
-  const model = "gemini-2.5-flash";
-  if (!symbols || symbols.length === 0) return [];
+// Quotes, indicators and model calls for one batch; results with failures aren't cached,
+// the next run should retry them
+const analyzeBatch = (symbols: string[], options: AnalysisOptions): Promise<AnalysisBatchResult> =>
+  cachedRequest('portfolio', getAIModel('portfolio'), symbols, options, async (shared) => {
+    const quotes = await fetchQuotes(symbols);
+    const indicators = await fetchIndicators(symbols);
 
-  // Pre-process symbols to fix known issues before sending to AI
-  const querySymbols = symbols.map(s => {
-    const cleanS = s.trim();
-    // Check strict mapping first
-    if (PRE_DEFINED_MAPPINGS[cleanS]) {
-      return PRE_DEFINED_MAPPINGS[cleanS];
+    let result = await requestPortfolioAnalysis(symbols, quotes, indicators, shared);
+
+    // Retry only the symbols that failed, keeping the rows that already passed
+    for (let attempt = 1; attempt < MAX_ANALYSIS_ATTEMPTS && result.failures.length > 0; attempt++) {
+      const retrySymbols = result.failures.map(f => f.symbol);
+      const retry = await requestPortfolioAnalysis(retrySymbols, quotes, indicators, shared);
+      result = {
+        stocks: [...result.stocks, ...retry.stocks],
+        failures: retry.failures,
+      };
     }
-    // Partial matches or fallbacks
-    if (cleanS.includes('4564')) return '4564 元翎';
-    return cleanS;
-  }).join(", ");
+
+    if (result.failures.length > 0) {
+      console.warn("Symbols without a valid analysis:", result.failures);
+    }
+    return result;
+  }, result => result.failures.length === 0);
+
+// Analyzes the symbols in batches. A batch whose request fails turns into per-symbol failures;
+// only when every batch fails is the first error thrown.
+export const analyzePortfolio = async (symbols: string[], options: AnalysisOptions = {}): Promise<AnalysisBatchResult> => {
+  if (!symbols || symbols.length === 0) return { stocks: [], failures: [] };
 
   try {
-    const ai = getAIClient();
-    const timeInstruction = getTaipeiTimeInstruction();
-    
-    const prompt = `
-      你是一個專業的金融分析系統。請使用 Google Search 查詢以下股票的「正確繁體中文公司名稱」與「最新股價」：${querySymbols}。
-      
-      ${timeInstruction}
-      
-      **極重要 - 代碼校正指令：**
-      請嚴格遵守以下代碼對應，不可混淆：
-      1. **2834 是「臺企銀」(Taiwan Business Bank)**，絕對不是台泥。
-      2. **3042 是「晶技」(TXC)**。
-      3. **6890 是「來億-KY」**。
-      4. 如果輸入是 "304"，請視為 "3042 晶技"。
-      
-      **一般指令：**
-      1. 務必使用 Google Search 獲取真實數據，不要使用估算值。
-      2. 「currentPrice」必須嚴格遵守上述的時間規則 (盤前看昨日收盤，盤後看今日收盤)。
-      3. 請針對持有狀況給出建議 (BUY/SELL/HOLD)。
-      
-      請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
-      [
-        {
-          "symbol": "股票代碼 (e.g. 0050)",
-          "name": "股票名稱 (繁體中文)",
-          "marketCap": "市值 (e.g. 3000億)",
-          "high52Week": 數字 (52週最高),
-          "low52Week": 數字 (52週最低),
-          "currentPrice": 數字 (依據時間規則的精確價格),
-          "suggestBuyPrice": 數字 (建議買入價),
-          "suggestSellPrice": 數字 (建議賣出價),
-          "recommendation": "BUY" | "SELL" | "HOLD",
-          "analysis": "簡短分析 (包含查到的最新新聞或價格資訊)",
-          "projectedAnnualYield": "預估年化殖利率 (e.g. 5-6%)",
-          "exampleScenario": "簡短操作建議"
-        }
-      ]
-    `;
+    const combined: AnalysisBatchResult = { stocks: [], failures: [] };
+    const cachedTimes: string[] = [];
+    const errors: unknown[] = [];
+    let batchCount = 0;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
+    for (let i = 0; i < symbols.length; i += ANALYSIS_BATCH_SIZE) {
+      const batch = symbols.slice(i, i + ANALYSIS_BATCH_SIZE);
+      batchCount += 1;
+      let result: AnalysisBatchResult;
+      try {
+        result = await analyzeBatch(batch, options);
+      } catch (error) {
+        // A cancelled run stops here, it isn't a failure of the remaining symbols
+        if (options.signal?.aborted) throw error;
+        console.error(`Error analyzing ${batch.join(", ")}:`, error);
+        errors.push(error);
+        result = { stocks: [], failures: batch.map(symbol => ({ symbol, reason: 'AI 請求失敗，請稍後重試' })) };
       }
-    });
+      if (result.cachedAt) cachedTimes.push(result.cachedAt);
+      combined.stocks.push(...result.stocks);
+      combined.failures.push(...result.failures);
+      options.onBatch?.(batch, result);
+    }
 
-    return extractJson(response.text || "[]");
+    if (errors.length === batchCount) throw errors[0];
+    // Only a run served entirely from the cache reports a cache time (the oldest one)
+    if (cachedTimes.length === batchCount) combined.cachedAt = cachedTimes.sort()[0];
+    return combined;
 
   } catch (error) {
     console.error("Error analyzing portfolio:", error);
@@ -179,90 +491,212 @@ export const analyzePortfolio = async (symbols: string[]): Promise<StockAnalysis
   }
 };
 
-export const analyzeMarketTrends = async (): Promise<StockAnalysis[]> => {
-  const model = "gemini-2.5-flash";
-  
-  try {
-    const ai = getAIClient();
-    const timeInstruction = getTaipeiTimeInstruction();
+// Symbol of an answer element, empty when it has none
+const elementSymbol = (element: unknown): string => {
+  const item = element && typeof element === 'object' ? element as Record<string, unknown> : {};
+  return normalizeSymbol(String(item.symbol ?? ''));
+};
 
-    const prompt = `
-      請使用 Google Search 掃描「今日」或「近3天」台灣股市 (TWSE/TPEX) 的熱門新聞、成交量排行或法人買賣超資訊。
-      找出 3 檔目前討論度最高或趨勢最明顯的股票。
-      
-      ${timeInstruction}
-      
-      **重要指令：**
-      1. 使用搜尋工具確保價格 (currentPrice) 符合時間規則 (收盤價/即時價)。
-      2. analysis 欄位需說明是因為哪則新聞或事件而熱門。
-      3. 確保公司名稱準確 (例如: 2834 是 臺企銀)。
-      
-      請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
-      [
-        {
-          "symbol": "股票代碼",
-          "name": "股票名稱",
-          "marketCap": "市值",
-          "high52Week": 數字,
-          "low52Week": 數字,
-          "currentPrice": 數字 (最新價格),
-          "suggestBuyPrice": 數字,
-          "suggestSellPrice": 數字,
-          "recommendation": "BUY" | "SELL" | "HOLD",
-          "analysis": "熱門原因分析",
-          "projectedAnnualYield": "預估殖利率",
-          "exampleScenario": "操作建議"
-        }
-      ]
-    `;
+// One model call for today's most discussed Taiwan stocks
+const requestMarketTrends = async (options: AnalysisOptions): Promise<AnalysisBatchResult> => {
+  const timeInstruction = getSessionInstruction(['TW']);
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
+  const prompt = `
+    請使用 Google Search 掃描「今日」或「近3天」台灣股市 (TWSE/TPEX) 的熱門新聞、成交量排行或法人買賣超資訊。
+    找出 3 檔目前討論度最高或趨勢最明顯的股票。
+    
+    ${timeInstruction}
+    
+    **重要指令：**
+    1. 不需要回傳現價與 52 週高低點，系統會另外從行情資料源取得。
+    2. analysis 欄位需說明是因為哪則新聞或事件而熱門，並在 sources 列出該新聞的標題、網址與發布日期 (只能列出搜尋到的真實網址)。
+    3. 確保公司名稱準確 (例如: 2834 是 臺企銀)。
+    
+    請回傳一個純 JSON 陣列 (Array)，不要包含其他解釋文字，格式如下：
+    [
+      {
+        "symbol": "股票代碼",
+        "name": "股票名稱",
+        "marketCap": "市值",
+        "suggestBuyPrice": 數字,
+        "suggestSellPrice": 數字,
+        "recommendation": "BUY" | "SELL" | "HOLD",
+        "analysis": "熱門原因分析",
+        "projectedAnnualYield": "預估殖利率",
+        "exampleScenario": "操作建議",
+        "sources": [{ "title": "新聞標題", "url": "https://...", "publishedAt": "YYYY-MM-DD" }]
       }
-    });
+    ]
+  `;
+
+  // The symbols are only known from the answer, so each streamed row fetches its own quote
+  const quotes: Record<string, MarketQuote> = {};
+  const quoteFetches: Promise<void>[] = [];
+  const prepare = (item: Record<string, unknown>) => mergeQuote(item as unknown as StockAnalysis, quotes[String(item.symbol)]);
+
+  const request: AIRequest = { feature: 'trends', model: getAIModel('trends'), prompt, signal: options.signal };
+  const response = await streamJsonArray(request, element => {
+    const symbol = elementSymbol(element);
+    if (!symbol) return;
+    quoteFetches.push(fetchQuotes([symbol]).then(fetched => {
+      Object.assign(quotes, fetched);
+      const [stock] = validateAnalysisBatch([attachSources(element, [], new Date())], undefined, prepare).stocks;
+      if (stock && !options.signal?.aborted) options.onStock?.(stock);
+    }));
+  });
+
+  let payload: unknown;
+  try {
+    payload = parseJsonPayload(response.text);
+  } catch (e) {
+    console.error("Failed to parse JSON from AI response:", response.text);
+    throw new Error("AI response was not valid JSON");
+  }
 
-    return extractJson(response.text || "[]");
+  // Rows the reader couldn't pick up still get their quotes before the final validation
+  await Promise.all(quoteFetches);
+  const missing = Array.isArray(payload)
+    ? payload.map(elementSymbol).filter(s => s.length > 0 && !quotes[s])
+    : [];
+  if (missing.length > 0) Object.assign(quotes, await fetchQuotes(missing));
 
+  const result = validateAnalysisBatch(withSources(payload, response), undefined, prepare);
+  if (result.failures.length > 0) {
+    console.warn("Dropped invalid trend items:", result.failures);
+  }
+  return result;
+};
+
+export const analyzeMarketTrends = async (options: AnalysisOptions = {}): Promise<AnalysisBatchResult> => {
+  try {
+    return await cachedRequest('trends', getAIModel('trends'), [], options, requestMarketTrends, result => result.stocks.length > 0);
   } catch (error) {
     console.error("Error analyzing trends:", error);
     throw error;
   }
 };
 
-export const getRetirementAdvice = async (plan: RetirementPlan, result: RetirementResult): Promise<string> => {
-  const model = "gemini-2.5-flash";
-  
-  try {
-    const ai = getAIClient();
-    const prompt = `
-      使用者正在進行退休規劃。
+// The plan and its projection as prompt lines, with amounts at retirement in the given money basis
+const formatRetirementForPrompt = (plan: RetirementPlan, result: RetirementResult, basis: MoneyBasis): string => {
+  const atRetirement = (value: number) => toMoneyBasis(value, plan, plan.retirementAge, basis).toFixed(0);
+  const laborInsurance = laborInsuranceBenefit(plan);
+  const laborInsuranceText = laborInsurance.eligible
+    ? `${laborInsurance.claimAge} 歲起每月 ${toMoneyBasis(laborInsuranceIncomeAt(plan, laborInsurance.claimAge, laborInsurance), plan, laborInsurance.claimAge, basis).toFixed(0)}`
+    : `無年金 (一次金 ${atRetirement(laborInsurance.lumpSum)})`;
+
+  return `
       現況：
       - 目前年齡: ${plan.currentAge}
       - 預計退休年齡: ${plan.retirementAge}
       - 目前資產: ${plan.currentSavings}
       - 每月儲蓄: ${plan.monthlySavings}
       - 目標預期年化報酬: ${plan.expectedAnnualReturn}%
-      - 目標退休後月領: ${plan.targetMonthlyPension}
+      - 目標退休後月領 (${MONEY_BASIS_LABELS[basis]}): ${atRetirement(targetPensionAtRetirement(plan))}
+      - 預期壽命: ${plan.lifeExpectancy} 歲，退休後年化報酬 ${plan.retirementReturn}%，通膨 ${plan.inflationRate}%
+      - 提領策略: ${WITHDRAWAL_STRATEGY_LABELS[plan.withdrawalStrategy]}
       
-      試算結果：
+      試算結果 (金額以${MONEY_BASIS_LABELS[basis]}表示)：
       - 距離退休還有: ${plan.retirementAge - plan.currentAge} 年
-      - 退休時預計累積資產: ${result.totalAccumulated.toFixed(0)}
-      - 依據 4% 法則，每月可提領: ${result.monthlyPensionPossible.toFixed(0)}
-      - 是否達成目標: ${result.isGoalReachable ? "是" : "否"}
+      - 退休時預計累積資產: ${atRetirement(result.totalAccumulated)}
+      - 其中勞退帳戶: ${atRetirement(laborPensionBalanceAfter(plan, Math.max(0, plan.retirementAge - plan.currentAge) * 12))}，另有勞保老年年金: ${laborInsuranceText}
+      - 隨通膨調整、可支應至預期壽命的每月提領: ${atRetirement(result.monthlyPensionPossible)}
+      - 資金缺口: ${atRetirement(result.shortfall)}
+      - 依提領策略，資產耗盡年齡: ${result.depletionAge ?? `超過 ${plan.lifeExpectancy} 歲`}
+      - 是否達成目標: ${result.isGoalReachable ? "是" : "否"}`;
+};
+
+export const getRetirementAdvice = async (plan: RetirementPlan, result: RetirementResult, basis: MoneyBasis = 'FUTURE'): Promise<string> => {
+  try {
+    const prompt = `
+      使用者正在進行退休規劃。
+      ${formatRetirementForPrompt(plan, result, basis)}
       
       請給予一段約 150 字的專業理財建議。針對是否達成目標提出具體改善策略（如調整儲蓄率、投資組合風險配置等）或肯定其計畫。語氣溫暖但專業。
+      提出改善策略前，請先用 project_retirement 工具試算該策略 (例如提高每月儲蓄或延後退休)，建議中的數字必須引用工具回傳的結果，不要自行計算。
     `;
 
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
+    const text = await getAIProvider().generate({
+      feature: 'retirement',
+      model: getAIModel('retirement'),
+      prompt,
+      tools: [retirementProjectionTool(plan, basis)],
     });
-    return response.text || "無法產生建議，請稍後再試。";
+    return text || "無法產生建議，請稍後再試。";
   } catch (error) {
     console.error("Error getting advice:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// --- Portfolio assistant ---
+
+// Earlier turns sent with each question; older ones stay in the stored history only
+const MAX_ASSISTANT_TURNS = 20;
+
+// Market values come from portfolioTotals in the base currency, matching StockTable and the
+// get_portfolio_totals tool
+const formatHoldingsForPrompt = (context: AssistantContext): string => {
+  const { stocks, fxSettings } = context;
+  if (stocks.length === 0) return "    (尚未分析任何持股)";
+  const { holdings } = portfolioTotals(stocks, {
+    quantities: context.quantities,
+    positions: context.positions,
+    currencies: context.currencies,
+    fxRates: fxSettings.rates,
+    baseCurrency: fxSettings.baseCurrency,
+  });
+  return stocks.map((s, i) => {
+    const { quantity, currency, baseValue, hasQuote } = holdings[i];
+    const valuation = hasQuote
+      ? `現價 ${s.currentPrice} ${currency} (${s.quoteAsOf || '日期不明'})，市值 ${baseValue.toFixed(0)} ${fxSettings.baseCurrency}`
+      : `無報價 (${currency})，市值未計入總額`;
+    return `    - ${s.symbol} ${s.name}: 持有 ${quantity} 股，${valuation}
+      建議 ${s.recommendation}，建議買入價 ${s.suggestBuyPrice}，建議賣出價 ${s.suggestSellPrice}，預估殖利率 ${s.projectedAnnualYield}
+      分析：${s.analysis}
+      操作建議：${s.exampleScenario}`;
+  }).join("\n");
+};
+
+const buildAssistantInstruction = (context: AssistantContext): string => `
+    你是使用者的個人投資與退休規劃助理，請以繁體中文回答。
+    回答必須依據下方使用者的持股分析與退休試算資料；資料中沒有的數字不要編造。
+    使用者詢問持股建議的原因時，引用該股的分析內容說明。
+    **計算一律使用工具，不要自行計算：** 持股市值、占比與損益用 get_portfolio_totals；退休試算與假設情境 (例如每月多存一萬、延後退休) 用 project_retirement，比較目前計畫與情境的差異。回答中的數字必須引用工具回傳的確切結果。
+    
+    **持股與分析結果：**
+${formatHoldingsForPrompt(context)}
+    
+    **目前退休計畫：**
+    ${context.plan && context.result ? formatRetirementForPrompt(context.plan, context.result, context.basis) : "(尚未設定退休計畫或無法試算)"}
+`;
+
+// Answers a follow-up question in the ongoing conversation; text streams out through onText and
+// each calculation the model runs through onToolCall
+export const askAssistant = async (
+  question: string,
+  history: ChatMessage[],
+  context: AssistantContext,
+  options: { signal?: AbortSignal; onText?: (text: string) => void; onToolCall?: (call: AIToolCall) => void } = {}
+): Promise<string> => {
+  try {
+    let answer = '';
+    const stream = getAIProvider().stream({
+      feature: 'assistant',
+      model: getAIModel('assistant'),
+      prompt: question,
+      system: buildAssistantInstruction(context),
+      history: history.slice(-MAX_ASSISTANT_TURNS).map(({ role, content }) => ({ role, content })),
+      tools: createAssistantTools(context),
+      signal: options.signal,
+    });
+    for await (const chunk of stream) {
+      answer += chunk.text;
+      if (chunk.text) options.onText?.(chunk.text);
+      if (chunk.toolCall) options.onToolCall?.(chunk.toolCall);
+    }
+    return answer || "無法產生回答，請稍後再試。";
+  } catch (error) {
+    console.error("Error asking assistant:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,113 @@
+import { RetirementPlan } from "../types";
+import { projectRetirement } from "./retirementModel";
+import { targetPensionAtRetirement } from "./inflation";
+
+// Inverse of projectRetirement: find the value of one input at which the sustainable pension
+// exactly meets the (inflated) target. Every solvable input moves the result monotonically,
+// so bisection is enough.
+
+export type SolverField = 'monthlySavings' | 'expectedAnnualReturn' | 'retirementAge' | 'currentSavings';
+
+export const SOLVER_FIELD_LABELS: Record<SolverField, string> = {
+  monthlySavings: '每月投入',
+  expectedAnnualReturn: '預期年化報酬率 (%)',
+  retirementAge: '退休年齡',
+  currentSavings: '目前投資資產',
+};
+
+export interface SolverResult {
+  field: SolverField;
+  value: number | null; // null when no value within the search range reaches the goal
+  alreadyMet: boolean; // goal is met even at the lower bound (e.g. with zero monthly savings)
+}
+
+interface SolverBounds {
+  lo: number;
+  hi: number;
+  maxHi: number; // the upper bound is doubled up to this limit
+  tolerance: number;
+}
+
+const boundsFor = (plan: RetirementPlan, field: SolverField): SolverBounds => {
+  switch (field) {
+    case 'monthlySavings':
+      return { lo: 0, hi: Math.max(10000, plan.monthlySavings), maxHi: 10000000, tolerance: 1 };
+    case 'currentSavings':
+      return { lo: 0, hi: Math.max(1000000, plan.currentSavings), maxHi: 10000000000, tolerance: 100 };
+    case 'expectedAnnualReturn':
+      return { lo: -5, hi: 30, maxHi: 30, tolerance: 0.005 };
+    case 'retirementAge':
+      return { lo: plan.currentAge + 1, hi: Math.max(plan.currentAge + 1, plan.lifeExpectancy - 1), maxHi: plan.lifeExpectancy - 1, tolerance: 1 };
+  }
+};
+
+// Sustainable pension minus the target, both nominal at retirement; >= 0 means reachable
+export const goalGap = (plan: RetirementPlan): number => {
+  const projection = projectRetirement(plan);
+  if (!projection) return -Infinity;
+  return projection.result.monthlyPensionPossible - targetPensionAtRetirement(plan);
+};
+
+export const solveFor = (plan: RetirementPlan, field: SolverField): SolverResult => {
+  const gapAt = (value: number) => goalGap({ ...plan, [field]: value });
+  const { maxHi, tolerance, ...bounds } = boundsFor(plan, field);
+  let { lo, hi } = bounds;
+
+  if (gapAt(lo) >= 0) return { field, value: lo, alreadyMet: true };
+  while (gapAt(hi) < 0) {
+    if (hi >= maxHi) return { field, value: null, alreadyMet: false };
+    hi = Math.min(maxHi, hi * 2);
+  }
+
+  if (field === 'retirementAge') {
+    // Whole years: the earliest age that works
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (gapAt(mid) >= 0) hi = mid; else lo = mid;
+    }
+    return { field, value: hi, alreadyMet: false };
+  }
+
+  while (hi - lo > tolerance) {
+    const mid = (lo + hi) / 2;
+    if (gapAt(mid) >= 0) hi = mid; else lo = mid;
+  }
+  return { field, value: hi, alreadyMet: false };
+};
+
+// --- Sensitivity ---
+
+export interface SensitivityInput {
+  field: keyof RetirementPlan;
+  label: string;
+  step: number;
+}
+
+export const SENSITIVITY_INPUTS: SensitivityInput[] = [
+  { field: 'expectedAnnualReturn', label: '預期報酬 ±1%', step: 1 },
+  { field: 'monthlySavings', label: '每月投入 ±5,000', step: 5000 },
+  { field: 'currentSavings', label: '目前資產 ±50萬', step: 500000 },
+  { field: 'retirementAge', label: '退休年齡 ±2 歲', step: 2 },
+  { field: 'targetMonthlyPension', label: '目標月領 ±5,000', step: 5000 },
+  { field: 'inflationRate', label: '通膨 ±0.5%', step: 0.5 },
+  { field: 'lifeExpectancy', label: '預期壽命 ±5 歲', step: 5 },
+];
+
+export interface SensitivityRow {
+  input: SensitivityInput;
+  low: SolverResult;
+  high: SolverResult;
+}
+
+// How the solved value moves when each of the other inputs is nudged down / up
+export const sensitivityTable = (plan: RetirementPlan, field: SolverField): SensitivityRow[] =>
+  SENSITIVITY_INPUTS
+    .filter(input => input.field !== field)
+    .map(input => {
+      const base = plan[input.field] as number;
+      return {
+        input,
+        low: solveFor({ ...plan, [input.field]: Math.max(0, base - input.step) }, field),
+        high: solveFor({ ...plan, [input.field]: base + input.step }, field),
+      };
+    });
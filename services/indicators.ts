@@ -0,0 +1,156 @@
+import { PriceBar, TechnicalIndicators } from "../types";
+
+// Deterministic technical indicators over daily bars (oldest first).
+// Parameters follow the defaults used by Taiwan brokerage apps.
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+export const sma = (values: number[], period: number): number | null => {
+  if (values.length < period) return null;
+  return average(values.slice(-period));
+};
+
+// Full EMA series seeded with the SMA of the first `period` values
+export const emaSeries = (values: number[], period: number): number[] => {
+  if (values.length < period) return [];
+  const k = 2 / (period + 1);
+  const series = [average(values.slice(0, period))];
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+};
+
+// RSI with Wilder's smoothing
+export const rsi = (closes: number[], period = 14): number | null => {
+  if (closes.length <= period) return null;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change > 0) gain += change; else loss -= change;
+  }
+  gain /= period;
+  loss /= period;
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gain = (gain * (period - 1) + Math.max(change, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+  if (loss === 0) return 100;
+  return 100 - 100 / (1 + gain / loss);
+};
+
+// MACD: DIF = EMA(fast) - EMA(slow), DEA = EMA(signal) of DIF, histogram (OSC) = DIF - DEA
+export const macd = (closes: number[], fast = 12, slow = 26, signal = 9) => {
+  const slowSeries = emaSeries(closes, slow);
+  if (slowSeries.length === 0) return null;
+  const fastSeries = emaSeries(closes, fast).slice(slow - fast);
+  const difSeries = slowSeries.map((s, i) => fastSeries[i] - s);
+  const deaSeries = emaSeries(difSeries, signal);
+  if (deaSeries.length === 0) return null;
+  const dif = difSeries[difSeries.length - 1];
+  const dea = deaSeries[deaSeries.length - 1];
+  return { dif, dea, histogram: dif - dea };
+};
+
+// KD stochastic (9,3,3): RSV over 9 days, K and D smoothed by 1/3, both seeded at 50
+export const kd = (bars: PriceBar[], period = 9) => {
+  if (bars.length < period) return null;
+  let k = 50;
+  let d = 50;
+  for (let i = period - 1; i < bars.length; i++) {
+    const window = bars.slice(i - period + 1, i + 1);
+    const highest = Math.max(...window.map(b => b.high));
+    const lowest = Math.min(...window.map(b => b.low));
+    const rsv = highest === lowest ? 50 : ((bars[i].close - lowest) / (highest - lowest)) * 100;
+    k = (2 / 3) * k + (1 / 3) * rsv;
+    d = (2 / 3) * d + (1 / 3) * k;
+  }
+  return { k, d };
+};
+
+// Bollinger bands: SMA(period) ± width × population standard deviation
+export const bollinger = (closes: number[], period = 20, width = 2) => {
+  if (closes.length < period) return null;
+  const window = closes.slice(-period);
+  const middle = average(window);
+  const std = Math.sqrt(average(window.map(v => (v - middle) ** 2)));
+  return { upper: middle + width * std, middle, lower: middle - width * std };
+};
+
+export const computeIndicators = (bars: PriceBar[]): TechnicalIndicators | null => {
+  if (bars.length === 0) return null;
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+  const closes = sorted.map(b => b.close);
+  const volumes = sorted.map(b => b.volume);
+  const last = sorted[sorted.length - 1];
+
+  const roundOrNull = (v: number | null) => v === null ? null : round(v);
+  const m = macd(closes);
+  const stoch = kd(sorted);
+  const bands = bollinger(closes);
+  const volumeMa5 = sma(volumes, 5);
+  const volumeMa20 = sma(volumes, 20);
+
+  return {
+    asOf: last.date,
+    close: last.close,
+    ma5: roundOrNull(sma(closes, 5)),
+    ma20: roundOrNull(sma(closes, 20)),
+    ma60: roundOrNull(sma(closes, 60)),
+    rsi14: roundOrNull(rsi(closes)),
+    macd: m && { dif: round(m.dif, 3), dea: round(m.dea, 3), histogram: round(m.histogram, 3) },
+    kd: stoch && { k: round(stoch.k), d: round(stoch.d) },
+    bollinger: bands && { upper: round(bands.upper), middle: round(bands.middle), lower: round(bands.lower) },
+    volumeMa5: volumeMa5 === null ? null : Math.round(volumeMa5),
+    volumeMa20: volumeMa20 === null ? null : Math.round(volumeMa20),
+  };
+};
+
+// Short rule-based readings shown next to the numbers and given to the model
+export const indicatorSignals = (ind: TechnicalIndicators): string[] => {
+  const signals: string[] = [];
+  if (ind.ma5 !== null && ind.ma20 !== null && ind.ma60 !== null) {
+    if (ind.ma5 > ind.ma20 && ind.ma20 > ind.ma60) signals.push('均線多頭排列');
+    else if (ind.ma5 < ind.ma20 && ind.ma20 < ind.ma60) signals.push('均線空頭排列');
+  }
+  if (ind.rsi14 !== null) {
+    if (ind.rsi14 >= 70) signals.push('RSI 超買');
+    else if (ind.rsi14 <= 30) signals.push('RSI 超賣');
+  }
+  if (ind.kd) {
+    if (ind.kd.k >= 80 && ind.kd.d >= 80) signals.push('KD 高檔鈍化區');
+    else if (ind.kd.k <= 20 && ind.kd.d <= 20) signals.push('KD 低檔區');
+    signals.push(ind.kd.k > ind.kd.d ? 'K 值在 D 值之上' : 'K 值在 D 值之下');
+  }
+  if (ind.macd) signals.push(ind.macd.histogram > 0 ? 'MACD 柱狀體為正' : 'MACD 柱狀體為負');
+  if (ind.bollinger) {
+    if (ind.close >= ind.bollinger.upper) signals.push('觸及布林上軌');
+    else if (ind.close <= ind.bollinger.lower) signals.push('觸及布林下軌');
+  }
+  if (ind.volumeMa5 !== null && ind.volumeMa20 !== null && ind.volumeMa20 > 0) {
+    const ratio = ind.volumeMa5 / ind.volumeMa20;
+    if (ratio >= 1.5) signals.push('近 5 日量能放大');
+    else if (ratio <= 0.6) signals.push('近 5 日量能萎縮');
+  }
+  return signals;
+};
+
+// One line per symbol for the analysis prompt
+export const formatIndicatorsForPrompt = (symbol: string, ind: TechnicalIndicators | null): string => {
+  if (!ind) return `- ${symbol}: 無足夠歷史資料計算技術指標`;
+  const fmt = (v: number | null) => v === null ? 'N/A' : String(v);
+  return [
+    `- ${symbol} (${ind.asOf} 收盤 ${ind.close})`,
+    `MA5/20/60=${fmt(ind.ma5)}/${fmt(ind.ma20)}/${fmt(ind.ma60)}`,
+    `RSI14=${fmt(ind.rsi14)}`,
+    ind.macd ? `MACD DIF=${ind.macd.dif} DEA=${ind.macd.dea} OSC=${ind.macd.histogram}` : 'MACD=N/A',
+    ind.kd ? `KD K=${ind.kd.k} D=${ind.kd.d}` : 'KD=N/A',
+    ind.bollinger ? `布林=${ind.bollinger.lower}~${ind.bollinger.upper}` : '布林=N/A',
+    `均量5/20=${fmt(ind.volumeMa5)}/${fmt(ind.volumeMa20)}`,
+    `訊號: ${indicatorSignals(ind).join('、') || '無'}`,
+  ].join('，');
+};
@@ -0,0 +1,17 @@
+import { MoneyBasis, RetirementPlan } from "../types";
+
+// Price level `years` from now relative to today
+export const inflationFactor = (plan: RetirementPlan, years: number) => Math.pow(1 + plan.inflationRate / 100, Math.max(0, years));
+
+// targetMonthlyPension is entered in today's money; this is what it costs in the first year of retirement
+export const targetPensionAtRetirement = (plan: RetirementPlan) =>
+  plan.targetMonthlyPension * inflationFactor(plan, plan.retirementAge - plan.currentAge);
+
+// Convert a nominal amount at a given age into the selected basis
+export const toMoneyBasis = (value: number, plan: RetirementPlan, age: number, basis: MoneyBasis) =>
+  basis === 'TODAY' ? value / inflationFactor(plan, age - plan.currentAge) : value;
+
+export const MONEY_BASIS_LABELS: Record<MoneyBasis, string> = {
+  TODAY: '今日幣值',
+  FUTURE: '未來幣值',
+};
@@ -0,0 +1,98 @@
+import { CashValueRow, InsurancePolicy, RetirementPlan } from "../types";
+import { createLedgerId } from "./ledger";
+import { toTwd } from "./fx";
+
+export const createPolicyId = createLedgerId;
+
+// Rate declared for a calendar year: the latest change at or before that year
+export const rateForYear = (policy: InsurancePolicy, year: number): number => {
+  const sorted = [...policy.declaredRates].sort((a, b) => a.fromYear - b.fromYear);
+  const applicable = sorted.filter(r => r.fromYear <= year);
+  const entry = applicable[applicable.length - 1] || sorted[0];
+  return entry ? entry.rate : 0;
+};
+
+const isPremiumYear = (policy: InsurancePolicy, year: number) =>
+  year >= policy.premiumStartYear && year < policy.premiumStartYear + policy.premiumYears;
+
+export const premiumsPaidBy = (policy: InsurancePolicy, year: number) => {
+  const years = Math.min(policy.premiumYears, Math.max(0, year - policy.premiumStartYear + 1));
+  return policy.annualPremium * years;
+};
+
+// Carries a value known at `fromYear` forward: each year compounds at the rate declared for the
+// previous year, then that year's premium (paid at the start of the year) is added
+const rollForward = (policy: InsurancePolicy, fromYear: number, fromValue: number, year: number) => {
+  let value = fromValue;
+  for (let y = fromYear + 1; y <= year; y++) {
+    value *= 1 + rateForYear(policy, y - 1) / 100;
+    if (isPremiumYear(policy, y)) value += policy.annualPremium;
+  }
+  return value;
+};
+
+// Value of a policy at a calendar year, in the policy currency
+export const policyValueAt = (policy: InsurancePolicy, year: number): number => {
+  if (year < policy.premiumStartYear) return 0;
+
+  if (policy.valuation === 'TABLE' && policy.cashValues.length > 0) {
+    const policyYear = year - policy.premiumStartYear + 1;
+    const rows = [...policy.cashValues].sort((a, b) => a.policyYear - b.policyYear);
+    const known = rows.filter(r => r.policyYear <= policyYear);
+    if (known.length === 0) return premiumsPaidBy(policy, year);
+    const last = known[known.length - 1];
+    if (last.policyYear === policyYear) return last.value;
+    // Past the end of the table (or a gap in it): grow the last known value at the declared rate
+    return rollForward(policy, policy.premiumStartYear + last.policyYear - 1, last.value, year);
+  }
+
+  return rollForward(policy, policy.premiumStartYear, isPremiumYear(policy, policy.premiumStartYear) ? policy.annualPremium : 0, year);
+};
+
+export const policyValueInTwd = (plan: RetirementPlan, policy: InsurancePolicy, year: number) =>
+  toTwd(policyValueAt(policy, year), policy.currency, plan.fxRates);
+
+// Total value of all policies at a given calendar year, in TWD
+export const insuranceValueAt = (plan: RetirementPlan, year: number): number =>
+  plan.insurancePolicies.reduce((sum, policy) => sum + policyValueInTwd(plan, policy, year), 0);
+
+// Pasted or imported surrender-value table: one "policyYear,value" pair per line. Tab-separated
+// rows (copied from a spreadsheet) may keep thousands separators in the value.
+export const parseCashValueTable = (text: string): CashValueRow[] => {
+  const rows: CashValueRow[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const cells = line.includes('\t') ? line.split('\t') : line.split(/[,\s]+/);
+    const [year, value] = cells.map(cell => Number(cell.replace(/[^0-9.-]/g, '')));
+    if (Number.isInteger(year) && year > 0 && Number.isFinite(value)) {
+      rows.push({ policyYear: year, value });
+    }
+  });
+  return rows.sort((a, b) => a.policyYear - b.policyYear);
+};
+
+// A paid-up single-premium policy, the shape of the original principal / rate / year-done inputs
+export const paidUpPolicy = (principal: number, rate: number, yearDone: number): InsurancePolicy => ({
+  id: createPolicyId(),
+  name: '儲蓄險',
+  currency: 'TWD',
+  annualPremium: principal,
+  premiumStartYear: yearDone,
+  premiumYears: 1,
+  valuation: 'RATE',
+  declaredRates: [{ fromYear: yearDone, rate }],
+  cashValues: [],
+});
+
+// Insurance fields of a saved plan, in either the current or the single-policy layout
+export interface SavedInsuranceFields {
+  insurancePolicies?: InsurancePolicy[];
+  insurancePrincipal?: number;
+  insuranceRate?: number;
+  insuranceYearDone?: number;
+}
+
+// Plans saved before policies were a list carry insurancePrincipal / insuranceRate / insuranceYearDone
+export const migrateInsurancePolicies = (saved?: SavedInsuranceFields): InsurancePolicy[] => {
+  if (Array.isArray(saved?.insurancePolicies)) return saved.insurancePolicies;
+  return [paidUpPolicy(saved?.insurancePrincipal || 200000, saved?.insuranceRate || 2.5, saved?.insuranceYearDone || 2022)];
+};
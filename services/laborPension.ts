@@ -0,0 +1,86 @@
+import { RetirementPlan } from "../types";
+import { inflationFactor } from "./inflation";
+
+// 勞工退休金 (new-system individual account) and 勞保老年年金 (labor insurance old-age annuity)
+
+// 勞退月提繳工資上限 (top bracket of the contribution wage table)
+export const LABOR_PENSION_WAGE_CAP = 150000;
+// 勞保投保薪資上限
+export const LABOR_INSURANCE_SALARY_CAP = 45800;
+
+// Statutory claim age for those born 1962 or later; each year earlier/later is -4%/+4%, up to 5 years
+export const LABOR_INSURANCE_PENSION_AGE = 65;
+const CLAIM_ADJUSTMENT_PER_YEAR = 0.04;
+const MAX_CLAIM_SHIFT_YEARS = 5;
+
+// At least 15 insured years are needed for the annuity; otherwise only the lump-sum benefit applies
+export const MIN_ANNUITY_YEARS = 15;
+
+export interface LaborInsuranceBenefit {
+  insuredYears: number;
+  claimAge: number;
+  eligible: boolean; // annuity, as opposed to the one-off lump sum
+  monthlyAnnuity: number; // today's money, after the early/deferred claim adjustment
+  lumpSum: number; // 老年一次金, paid at retirement when not eligible for the annuity
+}
+
+// --- 勞退個人帳戶 ---
+
+export const laborPensionMonthlyContribution = (plan: RetirementPlan) => {
+  const wage = Math.min(plan.monthlySalary, LABOR_PENSION_WAGE_CAP);
+  return Math.round(wage * (plan.employerPensionRate + plan.selfPensionRate) / 100);
+};
+
+// Account balance after `months` more months of contributions at laborPensionReturn
+export const laborPensionBalanceAfter = (plan: RetirementPlan, months: number) => {
+  const monthlyRate = plan.laborPensionReturn / 100 / 12;
+  const growth = Math.pow(1 + monthlyRate, months);
+  const contribution = laborPensionMonthlyContribution(plan);
+  const fvContributions = monthlyRate === 0 ? contribution * months : contribution * ((growth - 1) / monthlyRate);
+  return plan.laborPensionBalance * growth + fvContributions;
+};
+
+// --- 勞保老年給付 ---
+
+export const laborInsuranceBenefit = (plan: RetirementPlan): LaborInsuranceBenefit => {
+  const insuredYears = plan.laborInsuranceYears + Math.max(0, plan.retirementAge - plan.currentAge);
+  const salary = Math.min(plan.laborInsuranceSalary, LABOR_INSURANCE_SALARY_CAP);
+  const claimAge = Math.min(
+    LABOR_INSURANCE_PENSION_AGE + MAX_CLAIM_SHIFT_YEARS,
+    Math.max(LABOR_INSURANCE_PENSION_AGE - MAX_CLAIM_SHIFT_YEARS, plan.laborInsuranceClaimAge)
+  );
+
+  if (salary <= 0 || insuredYears <= 0) {
+    return { insuredYears, claimAge, eligible: false, monthlyAnnuity: 0, lumpSum: 0 };
+  }
+
+  if (insuredYears < MIN_ANNUITY_YEARS) {
+    // One month of insured salary per insured year
+    return { insuredYears, claimAge, eligible: false, monthlyAnnuity: 0, lumpSum: Math.round(salary * insuredYears) };
+  }
+
+  // The better of formula A (0.775% + NT$3,000) and formula B (1.55%)
+  const base = Math.max(salary * insuredYears * 0.00775 + 3000, salary * insuredYears * 0.0155);
+  const adjustment = 1 + (claimAge - LABOR_INSURANCE_PENSION_AGE) * CLAIM_ADJUSTMENT_PER_YEAR;
+  return { insuredYears, claimAge, eligible: true, monthlyAnnuity: Math.round(base * adjustment), lumpSum: 0 };
+};
+
+// Nominal monthly annuity received at a given age. The annuity is CPI-indexed, so it grows with inflation.
+export const laborInsuranceIncomeAt = (plan: RetirementPlan, age: number, benefit = laborInsuranceBenefit(plan)) => {
+  if (!benefit.eligible || age < benefit.claimAge) return 0;
+  return benefit.monthlyAnnuity * inflationFactor(plan, age - plan.currentAge);
+};
+
+// Value at retirement of the annuity payments up to lifeExpectancy, discounted at retirementReturn
+// (same start-of-year convention as the withdrawal simulation)
+export const laborInsurancePresentValue = (plan: RetirementPlan) => {
+  const benefit = laborInsuranceBenefit(plan);
+  if (!benefit.eligible) return 0;
+
+  const r = plan.retirementReturn / 100;
+  let pv = 0;
+  for (let age = plan.retirementAge; age < plan.lifeExpectancy; age++) {
+    pv += (laborInsuranceIncomeAt(plan, age, benefit) * 12) / Math.pow(1 + r, age - plan.retirementAge);
+  }
+  return pv;
+};
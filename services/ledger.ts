@@ -0,0 +1,157 @@
+import { LedgerEntry, CostBasisMethod, PositionSummary } from "../types";
+
+const LEDGER_STORAGE_KEY = 'finance_ledger';
+const METHOD_STORAGE_KEY = 'finance_cost_basis_method';
+
+// Taiwan brokerage: 0.1425% of the trade amount, minimum NT$20 (before any broker discount)
+export const BROKERAGE_FEE_RATE = 0.001425;
+export const MIN_BROKERAGE_FEE = 20;
+
+// Securities transaction tax on sells: 0.3% for shares, 0.1% for ETFs
+export const STOCK_TRANSACTION_TAX_RATE = 0.003;
+export const ETF_TRANSACTION_TAX_RATE = 0.001;
+
+// Taiwan ETF codes start with "00" (0050, 00878, 00679B ...)
+export const isEtfSymbol = (symbol: string) => symbol.startsWith('00');
+
+export const estimateBrokerageFee = (amount: number, discount = 1): number => {
+  if (amount <= 0) return 0;
+  return Math.max(MIN_BROKERAGE_FEE, Math.floor(amount * BROKERAGE_FEE_RATE * discount));
+};
+
+export const estimateTransactionTax = (symbol: string, amount: number): number => {
+  const rate = isEtfSymbol(symbol) ? ETF_TRANSACTION_TAX_RATE : STOCK_TRANSACTION_TAX_RATE;
+  return Math.floor(amount * rate);
+};
+
+// --- Persistence ---
+
+export const loadLedger = (): LedgerEntry[] => {
+  try {
+    const saved = localStorage.getItem(LEDGER_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLedger = (entries: LedgerEntry[]) => {
+  localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries));
+};
+
+export const loadCostBasisMethod = (): CostBasisMethod => {
+  return localStorage.getItem(METHOD_STORAGE_KEY) === 'FIFO' ? 'FIFO' : 'AVERAGE';
+};
+
+export const saveCostBasisMethod = (method: CostBasisMethod) => {
+  localStorage.setItem(METHOD_STORAGE_KEY, method);
+};
+
+export const createLedgerId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// --- Cost basis ---
+
+interface Lot {
+  quantity: number;
+  unitCost: number; // price + apportioned buy fee
+}
+
+const emptyPosition = (symbol: string): PositionSummary => ({
+  symbol,
+  quantity: 0,
+  costBasis: 0,
+  averageCost: 0,
+  realizedTradingPnL: 0,
+  dividendIncome: 0,
+  realizedPnL: 0,
+});
+
+// Same-day entries are applied buys first, so a buy and sell on one day never goes short
+const ENTRY_ORDER: Record<LedgerEntry['type'], number> = { BUY: 0, DIVIDEND: 1, SELL: 2 };
+
+export const sortLedger = (entries: LedgerEntry[]): LedgerEntry[] => {
+  return [...entries].sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+};
+
+// Replay the ledger per symbol. Sells beyond the held quantity are capped at what is held.
+// Symbols with dividends but no trades get no position: their quantity is still typed by hand.
+export const computePositions = (entries: LedgerEntry[], method: CostBasisMethod): Record<string, PositionSummary> => {
+  const positions: Record<string, PositionSummary> = {};
+  const lots: Record<string, Lot[]> = {};
+
+  sortLedger(entries).forEach(entry => {
+    const pos = positions[entry.symbol] || (positions[entry.symbol] = emptyPosition(entry.symbol));
+    const queue = lots[entry.symbol] || (lots[entry.symbol] = []);
+
+    switch (entry.type) {
+      case 'BUY': {
+        if (entry.quantity <= 0) break;
+        const cost = entry.price * entry.quantity + entry.fee;
+        queue.push({ quantity: entry.quantity, unitCost: cost / entry.quantity });
+        pos.quantity += entry.quantity;
+        pos.costBasis += cost;
+        break;
+      }
+      case 'SELL': {
+        const qty = Math.min(entry.quantity, pos.quantity);
+        if (qty <= 0) break;
+
+        let costRemoved = 0;
+        if (method === 'AVERAGE') {
+          costRemoved = (pos.costBasis / pos.quantity) * qty;
+          // Keep the lot queue consistent so switching methods stays meaningful
+          const ratio = 1 - qty / pos.quantity;
+          queue.forEach(lot => { lot.quantity *= ratio; });
+        } else {
+          let remaining = qty;
+          while (remaining > 0 && queue.length > 0) {
+            const lot = queue[0];
+            const take = Math.min(lot.quantity, remaining);
+            costRemoved += take * lot.unitCost;
+            lot.quantity -= take;
+            remaining -= take;
+            if (lot.quantity <= 1e-9) queue.shift();
+          }
+        }
+
+        const proceeds = entry.price * qty - entry.fee - entry.tax;
+        pos.realizedTradingPnL += proceeds - costRemoved;
+        pos.quantity -= qty;
+        pos.costBasis = pos.quantity > 0 ? pos.costBasis - costRemoved : 0;
+        break;
+      }
+      case 'DIVIDEND': {
+        pos.dividendIncome += entry.price * entry.quantity - entry.fee - entry.tax;
+        break;
+      }
+    }
+  });
+
+  Object.keys(positions).forEach(symbol => {
+    if (!entries.some(e => e.symbol === symbol && e.type !== 'DIVIDEND')) delete positions[symbol];
+  });
+
+  Object.values(positions).forEach(pos => {
+    pos.averageCost = pos.quantity > 0 ? pos.costBasis / pos.quantity : 0;
+    pos.realizedPnL = pos.realizedTradingPnL + pos.dividendIncome;
+  });
+
+  return positions;
+};
+
+export const unrealizedPnL = (position: PositionSummary, currentPrice: number): number => {
+  if (position.quantity <= 0 || currentPrice <= 0) return 0;
+  return currentPrice * position.quantity - position.costBasis;
+};
+
+// Shares held at the start of `date` (entries dated on that day are excluded),
+// e.g. the quantity entitled to a dividend with that ex-dividend date
+export const quantityBefore = (entries: LedgerEntry[], symbol: string, date: string): number => {
+  return sortLedger(entries)
+    .filter(e => e.symbol === symbol && e.date < date)
+    .reduce((qty, e) => {
+      if (e.type === 'BUY') return qty + e.quantity;
+      if (e.type === 'SELL') return Math.max(0, qty - e.quantity);
+      return qty;
+    }, 0);
+};
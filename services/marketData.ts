@@ -0,0 +1,362 @@
+import { MarketQuote, PriceBar } from "../types";
+import { isCurrency } from "./fx";
+import { localIsoDate } from "./dates";
+
+// A source of quotes and 52-week ranges. Prices shown in the app come from here,
+// the AI layer only fills in the qualitative fields.
+export interface MarketDataProvider {
+  id: string;
+  label: string;
+  getQuotes: (symbols: string[]) => Promise<Record<string, MarketQuote>>;
+  // Daily bars between two YYYY-MM-DD dates (inclusive); optional for providers without history
+  getHistory?: (symbol: string, from: string, to: string) => Promise<PriceBar[]>;
+}
+
+const PROVIDER_STORAGE_KEY = 'finance_market_data_provider';
+const FIXTURE_STORAGE_KEY = 'finance_market_fixtures';
+
+// --- Parsing helpers ---
+
+// TWSE/TPEX report dates in ROC calendar, e.g. "113/01/02" -> "2024-01-02"
+const rocToIso = (roc: string): string => {
+  const [y, m, d] = roc.trim().split('/');
+  return `${Number(y) + 1911}-${m.padStart(2, '0')}-${d.padStart(2, '0')}`;
+};
+
+// Open data numbers are strings like "1,234.50", or "--" when there was no trade
+const toNumber = (value: unknown): number => {
+  const n = Number(String(value ?? '').replace(/,/g, '').trim());
+  return Number.isFinite(n) ? n : NaN;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Calendar months (oldest first) touched by a YYYY-MM-DD date range
+const monthsBetween = (from: string, to: string): { year: number; month: number }[] => {
+  const months: { year: number; month: number }[] = [];
+  let year = Number(from.slice(0, 4));
+  let month = Number(from.slice(5, 7));
+  const endKey = Number(to.slice(0, 4)) * 12 + Number(to.slice(5, 7));
+  while (year * 12 + month <= endKey) {
+    months.push({ year, month });
+    month += 1;
+    if (month > 12) { month = 1; year += 1; }
+  }
+  return months;
+};
+
+// Build a quote from daily bars: latest close plus the high/low of the trailing year
+const quoteFromBars = (symbol: string, bars: PriceBar[], source: string, name?: string): MarketQuote | null => {
+  if (bars.length === 0) return null;
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date));
+  const last = sorted[sorted.length - 1];
+  const cutoff = new Date(last.date);
+  cutoff.setFullYear(cutoff.getFullYear() - 1);
+  const cutoffIso = cutoff.toISOString().slice(0, 10);
+  const yearBars = sorted.filter(b => b.date > cutoffIso);
+
+  return {
+    symbol,
+    name,
+    currentPrice: last.close,
+    high52Week: Math.max(...yearBars.map(b => b.high)),
+    low52Week: Math.min(...yearBars.map(b => b.low)),
+    asOf: last.date,
+    source,
+  };
+};
+
+// --- TWSE / TPEX open data adapter ---
+
+type ListedMarket = 'TWSE' | 'TPEX';
+
+interface ListingEntry {
+  market: ListedMarket;
+  name: string;
+}
+
+// Daily "all securities" snapshots, used to find which market a code trades on
+let directoryPromise: Promise<Record<string, ListingEntry>> | null = null;
+
+const loadDirectory = (): Promise<Record<string, ListingEntry>> => {
+  if (directoryPromise) return directoryPromise;
+
+  directoryPromise = (async () => {
+    const directory: Record<string, ListingEntry> = {};
+
+    const [twseRes, tpexRes] = await Promise.allSettled([
+      fetch('https://openapi.twse.com.tw/v1/exchangeReport/STOCK_DAY_ALL').then(r => r.json()),
+      fetch('https://www.tpex.org.tw/openapi/v1/tpex_mainboard_daily_close_quotes').then(r => r.json()),
+    ]);
+
+    if (tpexRes.status === 'fulfilled' && Array.isArray(tpexRes.value)) {
+      tpexRes.value.forEach((row: Record<string, unknown>) => {
+        directory[String(row.SecuritiesCompanyCode).trim()] = { market: 'TPEX', name: String(row.CompanyName).trim() };
+      });
+    }
+    if (twseRes.status === 'fulfilled' && Array.isArray(twseRes.value)) {
+      twseRes.value.forEach((row: Record<string, unknown>) => {
+        directory[String(row.Code).trim()] = { market: 'TWSE', name: String(row.Name).trim() };
+      });
+    }
+
+    // Don't cache an empty directory, the next refresh should retry
+    if (Object.keys(directory).length === 0) {
+      directoryPromise = null;
+      throw new Error("Failed to load TWSE/TPEX listings");
+    }
+    return directory;
+  })();
+
+  return directoryPromise;
+};
+
+// Every code currently trading on TWSE / TPEX with its market and name
+export const fetchTwseTpexListings = (): Promise<Record<string, { market: ListedMarket; name: string }>> => loadDirectory();
+
+// TWSE market holiday schedule for the current year. Dates come as ROC "1150101"; the
+// schedule also lists the first / last trading days around Lunar New Year, which do trade.
+export const fetchTwseHolidays = async (): Promise<string[]> => {
+  const res = await fetch('https://openapi.twse.com.tw/v1/holidaySchedule/holidaySchedule');
+  if (!res.ok) throw new Error(`Holiday schedule request failed: ${res.status}`);
+  const rows = await res.json();
+  if (!Array.isArray(rows)) throw new Error("Holiday schedule is not a list");
+
+  return rows
+    .filter((row: Record<string, unknown>) => !String(row.Name ?? '').includes('交易日'))
+    .map((row: Record<string, unknown>) => {
+      const digits = String(row.Date ?? '').replace(/\D/g, '');
+      if (digits.length === 7) return `${Number(digits.slice(0, 3)) + 1911}-${digits.slice(3, 5)}-${digits.slice(5)}`;
+      if (digits.length === 8) return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6)}`;
+      return '';
+    })
+    .filter(date => date !== '');
+};
+
+// Month-level bar cache; past months never change once the month is over
+const monthCache = new Map<string, PriceBar[]>();
+
+const fetchTwseMonth = async (code: string, year: number, month: number): Promise<PriceBar[]> => {
+  const url = `https://www.twse.com.tw/exchangeReport/STOCK_DAY?response=json&date=${year}${pad2(month)}01&stockNo=${code}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`TWSE request failed: ${res.status}`);
+  const json = await res.json();
+  if (json.stat !== 'OK' || !Array.isArray(json.data)) return [];
+
+  // Columns: 日期, 成交股數, 成交金額, 開盤價, 最高價, 最低價, 收盤價, 漲跌價差, 成交筆數
+  return json.data.map((row: string[]) => ({
+    date: rocToIso(row[0]),
+    open: toNumber(row[3]),
+    high: toNumber(row[4]),
+    low: toNumber(row[5]),
+    close: toNumber(row[6]),
+    volume: toNumber(row[1]),
+  }));
+};
+
+const fetchTpexMonth = async (code: string, year: number, month: number): Promise<PriceBar[]> => {
+  const url = `https://www.tpex.org.tw/web/stock/aftertrading/daily_trading_info/st43_result.php?l=zh-tw&d=${year - 1911}/${pad2(month)}&stkno=${code}`;
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`TPEX request failed: ${res.status}`);
+  const json = await res.json();
+  if (!Array.isArray(json.aaData)) return [];
+
+  // Columns: 日期, 成交仟股, 成交仟元, 開盤, 最高, 最低, 收盤, 漲跌, 筆數
+  return json.aaData.map((row: string[]) => ({
+    date: rocToIso(row[0].replace(/[^\d/]/g, '')),
+    open: toNumber(row[3]),
+    high: toNumber(row[4]),
+    low: toNumber(row[5]),
+    close: toNumber(row[6]),
+    volume: toNumber(row[1]) * 1000,
+  }));
+};
+
+export const fetchMonthlyBars = async (market: ListedMarket, code: string, year: number, month: number): Promise<PriceBar[]> => {
+  const key = `${market}:${code}:${year}-${pad2(month)}`;
+  const cached = monthCache.get(key);
+  if (cached) return cached;
+
+  const bars = (market === 'TWSE'
+    ? await fetchTwseMonth(code, year, month)
+    : await fetchTpexMonth(code, year, month)
+  ).filter(b => Number.isFinite(b.close) && Number.isFinite(b.high) && Number.isFinite(b.low));
+
+  const now = new Date();
+  const isCurrentMonth = year === now.getFullYear() && month === now.getMonth() + 1;
+  if (!isCurrentMonth) monthCache.set(key, bars);
+  return bars;
+};
+
+// Daily bars of a listed code in a date range, or null if the code is unknown.
+// Defaults to the trailing year (13 calendar months).
+export const fetchTwseTpexHistory = async (
+  code: string,
+  from?: string,
+  to?: string
+): Promise<{ market: ListedMarket; name: string; bars: PriceBar[] } | null> => {
+  const directory = await loadDirectory();
+  const listing = directory[code];
+  if (!listing) return null;
+
+  const now = new Date();
+  const end = to || localIsoDate(now);
+  const start = from || localIsoDate(new Date(now.getFullYear(), now.getMonth() - 12, 1));
+
+  const bars: PriceBar[] = [];
+  // Sequential on purpose: TWSE throttles bursts of requests from one client
+  for (const { year, month } of monthsBetween(start, end)) {
+    bars.push(...await fetchMonthlyBars(listing.market, code, year, month));
+  }
+  return { market: listing.market, name: listing.name, bars: bars.filter(b => b.date >= start && b.date <= end) };
+};
+
+export const twseTpexProvider: MarketDataProvider = {
+  id: 'twse',
+  label: '證交所 / 櫃買中心 Open Data',
+  getQuotes: async (symbols) => {
+    const quotes: Record<string, MarketQuote> = {};
+    for (const symbol of symbols) {
+      try {
+        const history = await fetchTwseTpexHistory(symbol);
+        if (!history) continue;
+        const quote = quoteFromBars(symbol, history.bars, history.market, history.name);
+        if (quote) quotes[symbol] = { ...quote, currency: 'TWD' };
+      } catch (e) {
+        console.warn(`No quote for ${symbol}:`, e);
+      }
+    }
+    return quotes;
+  },
+  getHistory: async (symbol, from, to) => {
+    const history = await fetchTwseTpexHistory(symbol, from, to);
+    return history ? history.bars : [];
+  },
+};
+
+// --- Local fixture adapter ---
+
+// Offline sample data, used by the fixture provider until the user imports their own
+export const DEMO_QUOTES: MarketQuote[] = [
+  { symbol: '0050', name: '元大台灣50', currentPrice: 187.5, high52Week: 201.0, low52Week: 146.2, asOf: '2025-06-30', source: 'fixture' },
+  { symbol: '2330', name: '台積電', currentPrice: 1060, high52Week: 1160, low52Week: 780, asOf: '2025-06-30', source: 'fixture' },
+  { symbol: '2834', name: '臺企銀', currentPrice: 14.2, high52Week: 15.8, low52Week: 12.6, asOf: '2025-06-30', source: 'fixture' },
+  { symbol: '3042', name: '晶技', currentPrice: 108.5, high52Week: 142.0, low52Week: 95.3, asOf: '2025-06-30', source: 'fixture' },
+  { symbol: '1101', name: '台泥', currentPrice: 27.6, high52Week: 35.4, low52Week: 26.1, asOf: '2025-06-30', source: 'fixture' },
+  { symbol: '9904', name: '寶成', currentPrice: 36.8, high52Week: 42.5, low52Week: 31.0, asOf: '2025-06-30', source: 'fixture' },
+];
+
+// Accepts either a JSON array of MarketQuote or a CSV with a header row
+// (symbol,name,currentPrice,high52Week,low52Week,asOf[,currency])
+export const parseQuoteFixtures = (text: string): MarketQuote[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error("Fixture JSON must be an array");
+    return parsed.map((q: Record<string, unknown>) => ({
+      symbol: String(q.symbol).trim(),
+      name: q.name ? String(q.name) : undefined,
+      currentPrice: toNumber(q.currentPrice),
+      high52Week: toNumber(q.high52Week),
+      low52Week: toNumber(q.low52Week),
+      asOf: String(q.asOf || ''),
+      source: 'fixture',
+      currency: isCurrency(q.currency) ? q.currency : undefined,
+    }));
+  }
+
+  const [header, ...rows] = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const columns = header.split(',').map(c => c.trim());
+  const col = (name: string) => {
+    const idx = columns.indexOf(name);
+    if (idx === -1) throw new Error(`Fixture CSV is missing column "${name}"`);
+    return idx;
+  };
+  const idx = {
+    symbol: col('symbol'),
+    currentPrice: col('currentPrice'),
+    high52Week: col('high52Week'),
+    low52Week: col('low52Week'),
+    asOf: col('asOf'),
+    name: columns.indexOf('name'),
+    currency: columns.indexOf('currency'),
+  };
+
+  return rows.map(line => {
+    const cells = line.split(',').map(c => c.trim());
+    const currency = idx.currency >= 0 ? cells[idx.currency] : undefined;
+    return {
+      symbol: cells[idx.symbol],
+      name: idx.name >= 0 ? cells[idx.name] : undefined,
+      currentPrice: toNumber(cells[idx.currentPrice]),
+      high52Week: toNumber(cells[idx.high52Week]),
+      low52Week: toNumber(cells[idx.low52Week]),
+      asOf: cells[idx.asOf],
+      source: 'fixture',
+      currency: isCurrency(currency) ? currency : undefined,
+    };
+  });
+};
+
+export const createFixtureProvider = (fixtures: MarketQuote[]): MarketDataProvider => {
+  const bySymbol: Record<string, MarketQuote> = {};
+  fixtures.forEach(q => { bySymbol[q.symbol] = q; });
+
+  return {
+    id: 'fixture',
+    label: '本機樣本資料 (離線)',
+    getQuotes: async (symbols) => {
+      const quotes: Record<string, MarketQuote> = {};
+      symbols.forEach(s => {
+        if (bySymbol[s]) quotes[s] = bySymbol[s];
+      });
+      return quotes;
+    },
+  };
+};
+
+export const loadFixtureQuotes = (): MarketQuote[] => {
+  try {
+    const saved = localStorage.getItem(FIXTURE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEMO_QUOTES;
+  } catch {
+    return DEMO_QUOTES;
+  }
+};
+
+// Parses and stores an imported fixture file; returns the number of quotes loaded
+export const importFixtureQuotes = (text: string): number => {
+  const quotes = parseQuoteFixtures(text).filter(q => q.symbol && Number.isFinite(q.currentPrice));
+  localStorage.setItem(FIXTURE_STORAGE_KEY, JSON.stringify(quotes));
+  return quotes.length;
+};
+
+// --- Provider selection ---
+
+export const MARKET_DATA_PROVIDER_OPTIONS = [
+  { id: twseTpexProvider.id, label: twseTpexProvider.label },
+  { id: 'fixture', label: '本機樣本資料 (離線)' },
+];
+
+// Explicit override, e.g. a fake provider when exercising the pipeline offline
+let providerOverride: MarketDataProvider | null = null;
+
+export const setMarketDataProvider = (provider: MarketDataProvider | null) => {
+  providerOverride = provider;
+};
+
+export const getMarketDataProviderId = (): string => {
+  return localStorage.getItem(PROVIDER_STORAGE_KEY) || twseTpexProvider.id;
+};
+
+export const setMarketDataProviderId = (id: string) => {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+export const getMarketDataProvider = (): MarketDataProvider => {
+  if (providerOverride) return providerOverride;
+  if (getMarketDataProviderId() === 'fixture') {
+    return createFixtureProvider(loadFixtureQuotes());
+  }
+  return twseTpexProvider;
+};
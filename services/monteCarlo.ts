@@ -0,0 +1,168 @@
+import { RetirementPlan, PriceBar } from "../types";
+import { guaranteedAssetsAt, requiredAssets } from "./retirementModel";
+
+// Stochastic accumulation: each simulated year draws one annual return, applied
+// monthly together with the monthly savings. Insurance and 勞退 stay deterministic.
+
+export type ReturnModel = 'LOGNORMAL' | 'BOOTSTRAP';
+
+export interface MonteCarloSettings {
+  runs: number;
+  meanReturn: number; // % per year (arithmetic)
+  volatility: number; // % per year
+  model: ReturnModel;
+  historicalReturns: number[]; // % per year, sampled with replacement in BOOTSTRAP mode
+  seed: number;
+}
+
+export interface FanChartPoint {
+  age: number;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  runs: number;
+  successProbability: number; // 0..1, share of paths reaching the target pension
+  fan: FanChartPoint[]; // total assets (investments + guaranteed assets) at each age
+  finalP10: number;
+  finalP50: number;
+  finalP90: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'finance_monte_carlo_settings';
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  runs: 2000,
+  meanReturn: 6,
+  volatility: 15,
+  model: 'LOGNORMAL',
+  historicalReturns: [],
+  seed: 42,
+};
+
+export const loadMonteCarloSettings = (): MonteCarloSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return saved ? { ...DEFAULT_MONTE_CARLO_SETTINGS, ...JSON.parse(saved) } : DEFAULT_MONTE_CARLO_SETTINGS;
+  } catch {
+    return DEFAULT_MONTE_CARLO_SETTINGS;
+  }
+};
+
+export const saveMonteCarloSettings = (settings: MonteCarloSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Seeded PRNG (mulberry32) so the same inputs always give the same fan chart
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Standard normal draw (Box-Muller)
+const normal = (random: () => number) => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Annual return sampler. Lognormal parameters are matched to the requested arithmetic
+// mean and volatility, so returns can never fall below -100%.
+const createReturnSampler = (settings: MonteCarloSettings, random: () => number): (() => number) => {
+  if (settings.model === 'BOOTSTRAP' && settings.historicalReturns.length > 0) {
+    const pool = settings.historicalReturns.map(r => r / 100);
+    return () => pool[Math.floor(random() * pool.length)];
+  }
+  const mean = settings.meanReturn / 100;
+  const vol = settings.volatility / 100;
+  const sigma = Math.sqrt(Math.log(1 + (vol * vol) / ((1 + mean) * (1 + mean))));
+  const mu = Math.log(1 + mean) - (sigma * sigma) / 2;
+  return () => Math.exp(mu + sigma * normal(random)) - 1;
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[idx];
+};
+
+export const runMonteCarlo = (
+  plan: RetirementPlan,
+  settings: MonteCarloSettings,
+  currentYear = new Date().getFullYear()
+): MonteCarloResult | null => {
+  const years = plan.retirementAge - plan.currentAge;
+  if (years <= 0 || settings.runs <= 0) return null;
+
+  const random = createRandom(settings.seed);
+  const sampleReturn = createReturnSampler(settings, random);
+  const target = requiredAssets(plan);
+
+  // byYear[y][run] = investment balance at the end of year y (index 0 = today)
+  const byYear: number[][] = Array.from({ length: years + 1 }, () => new Array(settings.runs));
+  let successes = 0;
+
+  for (let run = 0; run < settings.runs; run++) {
+    let balance = plan.currentSavings;
+    byYear[0][run] = balance;
+    for (let y = 1; y <= years; y++) {
+      const monthlyRate = Math.pow(1 + sampleReturn(), 1 / 12) - 1;
+      for (let m = 0; m < 12; m++) {
+        balance = balance * (1 + monthlyRate) + plan.monthlySavings;
+      }
+      byYear[y][run] = balance;
+    }
+    if (balance + guaranteedAssetsAt(plan, years, currentYear) >= target) successes++;
+  }
+
+  const fan = byYear.map((balances, y) => {
+    const guaranteed = guaranteedAssetsAt(plan, y, currentYear);
+    const sorted = [...balances].sort((a, b) => a - b);
+    return {
+      age: plan.currentAge + y,
+      p10: percentile(sorted, 0.1) + guaranteed,
+      p50: percentile(sorted, 0.5) + guaranteed,
+      p90: percentile(sorted, 0.9) + guaranteed,
+    };
+  });
+  const last = fan[fan.length - 1];
+
+  return {
+    runs: settings.runs,
+    successProbability: successes / settings.runs,
+    fan,
+    finalP10: last.p10,
+    finalP50: last.p50,
+    finalP90: last.p90,
+  };
+};
+
+// Calendar-year returns (%) from stored daily bars, for bootstrapping.
+// Only complete years are used; partial first/last years would skew the pool.
+export const annualReturnsFromHistory = (bars: PriceBar[]): number[] => {
+  const lastCloseByYear = new Map<number, number>();
+  const years = new Set<number>();
+  [...bars].sort((a, b) => a.date.localeCompare(b.date)).forEach(b => {
+    const year = Number(b.date.slice(0, 4));
+    years.add(year);
+    lastCloseByYear.set(year, b.close);
+  });
+
+  const sortedYears = Array.from(years).sort();
+  const returns: number[] = [];
+  // Year N return = close(N) / close(N-1) - 1; the latest year is treated as still in progress
+  for (let i = 1; i < sortedYears.length - 1; i++) {
+    const prev = lastCloseByYear.get(sortedYears[i - 1]);
+    const cur = lastCloseByYear.get(sortedYears[i]);
+    if (prev && cur) returns.push(Math.round((cur / prev - 1) * 1000) / 10);
+  }
+  return returns;
+};
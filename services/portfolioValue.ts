@@ -0,0 +1,68 @@
+import { Currency, FxRates, PositionSummary, StockAnalysis } from "../types";
+import { convert } from "./fx";
+import { unrealizedPnL } from "./ledger";
+
+// Market value and P&L of holdings in a base currency, as StockTable totals them. Kept free of
+// React so the assistant's tools report exactly the numbers the table shows. Holdings without a
+// quote (no price source covers their market yet) are left out of the totals and listed in `unquoted`.
+
+export interface HoldingValue {
+  symbol: string;
+  name: string;
+  quantity: number;
+  currentPrice: number;
+  hasQuote: boolean;
+  currency: Currency;
+  marketValue: number; // in the holding's currency
+  baseValue: number; // converted to the base currency
+  unrealizedPnL: number | null; // base currency; null without a ledger position
+  realizedPnL: number | null;
+}
+
+export interface PortfolioTotals {
+  holdings: HoldingValue[];
+  marketValue: number; // base currency
+  unrealizedPnL: number;
+  realizedPnL: number;
+  unquoted: string[]; // held symbols left out of marketValue and unrealizedPnL
+}
+
+export interface PortfolioValueOptions {
+  quantities?: Record<string, number>;
+  positions?: Record<string, PositionSummary>; // ledger positions; P&L only counts these
+  currencies?: Record<string, Currency>; // holding currencies set by hand, over the quote's
+  fxRates: FxRates;
+  baseCurrency: Currency;
+}
+
+export const portfolioTotals = (stocks: StockAnalysis[], options: PortfolioValueOptions): PortfolioTotals => {
+  const { quantities = {}, positions = {}, currencies = {}, fxRates, baseCurrency } = options;
+
+  const holdings = stocks.map((stock): HoldingValue => {
+    const currency = currencies[stock.symbol] || stock.currency || 'TWD';
+    const toBase = (value: number) => convert(value, currency, baseCurrency, fxRates);
+    const quantity = quantities[stock.symbol] || 0;
+    const position = positions[stock.symbol];
+    const hasQuote = stock.currentPrice > 0;
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      quantity,
+      currentPrice: stock.currentPrice,
+      hasQuote,
+      currency,
+      marketValue: stock.currentPrice * quantity,
+      baseValue: toBase(stock.currentPrice * quantity),
+      unrealizedPnL: position && hasQuote ? toBase(unrealizedPnL(position, stock.currentPrice)) : null,
+      realizedPnL: position ? toBase(position.realizedPnL) : null,
+    };
+  });
+
+  return {
+    holdings,
+    marketValue: holdings.reduce((sum, h) => sum + h.baseValue, 0),
+    unrealizedPnL: holdings.reduce((sum, h) => sum + (h.unrealizedPnL || 0), 0),
+    realizedPnL: holdings.reduce((sum, h) => sum + (h.realizedPnL || 0), 0),
+    unquoted: holdings.filter(h => !h.hasQuote && h.quantity > 0).map(h => h.symbol),
+  };
+};
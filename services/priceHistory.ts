@@ -0,0 +1,168 @@
+import { PriceBar } from "../types";
+import { getMarketDataProvider } from "./marketData";
+import { localIsoDate } from "./dates";
+import { MARKETS, previousTradingDate, symbolMarket, toSymbolKey } from "./exchanges";
+import { latestCloseDate } from "./quoteFreshness";
+
+// Local time-series store: daily OHLCV per symbol, filled by imports or the data provider
+const HISTORY_STORAGE_KEY = 'finance_price_history';
+
+export type HistoryRange = '1M' | '3M' | '1Y' | '5Y';
+
+export const HISTORY_RANGES: { id: HistoryRange; label: string; months: number }[] = [
+  { id: '1M', label: '1月', months: 1 },
+  { id: '3M', label: '3月', months: 3 },
+  { id: '1Y', label: '1年', months: 12 },
+  { id: '5Y', label: '5年', months: 60 },
+];
+
+export const rangeStartDate = (range: HistoryRange, now = new Date()): string => {
+  const months = HISTORY_RANGES.find(r => r.id === range)?.months ?? 12;
+  return localIsoDate(new Date(now.getFullYear(), now.getMonth() - months, now.getDate()));
+};
+
+const loadStore = (): Record<string, PriceBar[]> => {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch {
+    return {};
+  }
+};
+
+// Five years of several symbols can outgrow the storage quota. Other symbols are then cut to
+// the last year (what indicators use), and dropped as a last resort; `symbol` is kept whole.
+const saveStore = (store: Record<string, PriceBar[]>, symbol?: string) => {
+  const yearStart = rangeStartDate('1Y');
+  const attempts = [
+    store,
+    Object.fromEntries(Object.entries(store).map(([s, bars]) => [s, s === symbol ? bars : bars.filter(b => b.date >= yearStart)])),
+    symbol && store[symbol] ? { [symbol]: store[symbol] } : {},
+  ];
+  for (const attempt of attempts) {
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(attempt));
+      return;
+    } catch (error) {
+      console.warn("Price history store is over quota, pruning:", error);
+    }
+  }
+};
+
+// All stored bars for a symbol, oldest first
+export const loadHistory = (symbol: string): PriceBar[] => {
+  return loadStore()[symbol] || [];
+};
+
+export const loadHistoryRange = (symbol: string, range: HistoryRange): PriceBar[] => {
+  const start = rangeStartDate(range);
+  return loadHistory(symbol).filter(b => b.date >= start);
+};
+
+// Upsert bars by date; newer data for the same day wins
+export const mergeHistory = (symbol: string, bars: PriceBar[]): PriceBar[] => {
+  const store = loadStore();
+  const byDate = new Map<string, PriceBar>();
+  (store[symbol] || []).forEach(b => byDate.set(b.date, b));
+  bars.forEach(b => byDate.set(b.date, b));
+
+  const merged = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+  store[symbol] = merged;
+  saveStore(store, symbol);
+  return merged;
+};
+
+export const clearHistory = (symbol: string) => {
+  const store = loadStore();
+  delete store[symbol];
+  saveStore(store);
+};
+
+// Concurrent syncs of the same symbol/range share one request
+const inflight = new Map<string, Promise<PriceBar[]>>();
+
+// Fetch whatever part of the range is missing from the store via the active provider.
+// Only the gap before the oldest stored bar and after the newest one is requested.
+export const syncHistory = (symbol: string, range: HistoryRange): Promise<PriceBar[]> => {
+  const key = `${symbol}:${range}`;
+  const pending = inflight.get(key);
+  if (pending) return pending;
+
+  const promise = fetchMissingHistory(symbol, range).finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+};
+
+const fetchMissingHistory = async (symbol: string, range: HistoryRange): Promise<PriceBar[]> => {
+  const provider = getMarketDataProvider();
+  if (!provider.getHistory) return loadHistoryRange(symbol, range);
+
+  const start = rangeStartDate(range);
+  const today = localIsoDate();
+  const marketId = symbolMarket(symbol);
+  // Merged bars are used as returned, in case the store couldn't keep them
+  let bars = loadHistory(symbol);
+
+  // Stored bars cover the range once no trading day lies between its start and the oldest bar,
+  // and are current once they reach the latest published close
+  if (bars.length === 0 || previousTradingDate(MARKETS[marketId], bars[0].date) >= start) {
+    const end = bars.length > 0 ? bars[0].date : today;
+    bars = mergeHistory(symbol, await provider.getHistory(symbol, start, end));
+  }
+  const newest = bars.length > 0 ? bars[bars.length - 1].date : start;
+  if (newest < latestCloseDate(marketId)) {
+    bars = mergeHistory(symbol, await provider.getHistory(symbol, newest, today));
+  }
+
+  return bars.filter(b => b.date >= start);
+};
+
+// CSV import: header row with date,open,high,low,close,volume (any order).
+// An optional `symbol` column allows several symbols in one file; otherwise
+// every row belongs to `defaultSymbol`. Returns bars imported per symbol.
+export const importHistoryCsv = (text: string, defaultSymbol?: string): Record<string, number> => {
+  const [header, ...rows] = text.trim().split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (!header) throw new Error("Empty CSV");
+
+  const columns = header.split(',').map(c => c.trim().toLowerCase());
+  const col = (name: string) => {
+    const idx = columns.indexOf(name);
+    if (idx === -1) throw new Error(`History CSV is missing column "${name}"`);
+    return idx;
+  };
+  const idx = {
+    date: col('date'),
+    open: col('open'),
+    high: col('high'),
+    low: col('low'),
+    close: col('close'),
+    volume: columns.indexOf('volume'),
+    symbol: columns.indexOf('symbol'),
+  };
+
+  const fallbackSymbol = defaultSymbol ? toSymbolKey(defaultSymbol) : '';
+  const bySymbol: Record<string, PriceBar[]> = {};
+  rows.forEach(line => {
+    const cells = line.split(',').map(c => c.trim());
+    const symbol = idx.symbol >= 0 ? toSymbolKey(cells[idx.symbol]) : fallbackSymbol;
+    if (!symbol) throw new Error("History CSV has no symbol column and no symbol was given");
+
+    const bar: PriceBar = {
+      date: cells[idx.date].replace(/\//g, '-'),
+      open: Number(cells[idx.open]),
+      high: Number(cells[idx.high]),
+      low: Number(cells[idx.low]),
+      close: Number(cells[idx.close]),
+      volume: idx.volume >= 0 ? Number(cells[idx.volume]) || 0 : 0,
+    };
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(bar.date) || !Number.isFinite(bar.close)) return;
+    (bySymbol[symbol] = bySymbol[symbol] || []).push(bar);
+  });
+
+  const counts: Record<string, number> = {};
+  Object.entries(bySymbol).forEach(([symbol, bars]) => {
+    mergeHistory(symbol, bars);
+    counts[symbol] = bars.length;
+  });
+  return counts;
+};
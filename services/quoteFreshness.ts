@@ -0,0 +1,80 @@
+import { MarketQuote, QuoteSession, StockAnalysis } from "../types";
+import { MarketId, marketClock, previousTradingDate, symbolMarket } from "./exchanges";
+
+// When a quote was fetched, which session it belongs to and whether a newer price exists.
+// Providers only serve daily closes (or an intraday snapshot of today's bar), so a quote is
+// out of date once a close later than its date has been published.
+
+// An intraday snapshot older than this is worth refetching while the market is open
+const INTRADAY_REFRESH_MINUTES = 30;
+
+export const QUOTE_SESSION_LABELS: Record<QuoteSession, string> = {
+  PRE_OPEN: '盤前',
+  INTRADAY: '盤中',
+  CLOSE: '收盤',
+};
+
+// Date of the latest close that should already be published: today's once the market has
+// closed, otherwise the previous trading day's
+export const latestCloseDate = (marketId: MarketId, now: Date = new Date()): string => {
+  const clock = marketClock(marketId, now);
+  return clock.state === 'CLOSED' ? clock.localDate : previousTradingDate(clock.market, clock.localDate);
+};
+
+// Date whose price the session rule in the prompts asks for: today once the market has opened,
+// otherwise the latest trading day before today
+export const sessionPriceDate = (marketId: MarketId, now: Date = new Date()): string => {
+  const clock = marketClock(marketId, now);
+  return clock.state === 'OPEN' || clock.state === 'BREAK' || clock.state === 'CLOSED'
+    ? clock.localDate
+    : previousTradingDate(clock.market, clock.localDate);
+};
+
+// Stamps a freshly fetched quote with the fetch time, the session and the price time
+export const stampQuote = (quote: MarketQuote, now: Date = new Date()): MarketQuote => {
+  const clock = marketClock(symbolMarket(quote.symbol), now);
+  const { sessions } = clock.market;
+  // Today's bar during trading hours is a snapshot as of now; any other bar is a close
+  const intraday = quote.asOf === clock.localDate && (clock.state === 'OPEN' || clock.state === 'BREAK');
+  const session: QuoteSession = intraday ? 'INTRADAY' : clock.state === 'PRE_OPEN' ? 'PRE_OPEN' : 'CLOSE';
+  const time = intraday ? `${quote.asOf} ${clock.localTime}` : `${quote.asOf} ${sessions[sessions.length - 1].close}`;
+  return { ...quote, time, fetchedAt: now.toISOString(), session };
+};
+
+export type FreshnessStatus = 'FRESH' | 'INTRADAY' | 'STALE' | 'UNKNOWN';
+
+export interface QuoteFreshness {
+  status: FreshnessStatus;
+  label: string;
+  detail: string;
+  needsRefresh: boolean;
+}
+
+export const quoteFreshness = (stock: StockAnalysis, now: Date = new Date()): QuoteFreshness => {
+  if (!stock.quoteAsOf || stock.currentPrice <= 0) {
+    return { status: 'UNKNOWN', label: '未知', detail: '沒有報價時間，請重新更新', needsRefresh: true };
+  }
+
+  const marketId = symbolMarket(stock.symbol);
+  const clock = marketClock(marketId, now);
+  const expected = latestCloseDate(marketId, now);
+  const priceTime = stock.quoteTime || stock.quoteAsOf;
+
+  if (stock.quoteAsOf < expected) {
+    return { status: 'STALE', label: '過期', detail: `報價為 ${priceTime}，已有 ${expected} 收盤價`, needsRefresh: true };
+  }
+  // An intraday snapshot is superseded by the close of the same day
+  if (stock.quoteSession === 'INTRADAY' && stock.quoteAsOf === expected) {
+    return { status: 'STALE', label: '過期', detail: `盤中報價 (${priceTime})，已收盤`, needsRefresh: true };
+  }
+
+  if (clock.state === 'OPEN' || clock.state === 'BREAK') {
+    const fetchedAt = stock.quoteFetchedAt ? new Date(stock.quoteFetchedAt).getTime() : 0;
+    const ageMinutes = Math.floor((now.getTime() - fetchedAt) / 60000);
+    const needsRefresh = ageMinutes >= INTRADAY_REFRESH_MINUTES;
+    const age = stock.quoteFetchedAt ? `，${ageMinutes} 分鐘前取得` : '';
+    return { status: 'INTRADAY', label: '盤中', detail: `交易中，報價為 ${priceTime}${age}`, needsRefresh };
+  }
+
+  return { status: 'FRESH', label: '最新', detail: `${priceTime} ${QUOTE_SESSION_LABELS.CLOSE}價`, needsRefresh: false };
+};
@@ -0,0 +1,107 @@
+import { RetirementPlan, RetirementResult } from "../types";
+import { simulateWithdrawals, spendingPresentValueFactor } from "./decumulation";
+import { targetPensionAtRetirement } from "./inflation";
+import { insuranceValueAt } from "./insurance";
+import { LaborInsuranceBenefit, laborInsuranceBenefit, laborInsurancePresentValue, laborPensionBalanceAfter } from "./laborPension";
+
+// Deterministic accumulation model behind RetirementCalc, kept free of React so other
+// features (simulations, scenarios) run exactly the same arithmetic.
+
+export interface RetirementProjection {
+  result: RetirementResult;
+  fvLumpSum: number; // current investable assets compounded to retirement
+  fvMonthly: number; // future monthly savings compounded to retirement
+  fvInsurance: number;
+  fvLaborPension: number; // 勞退 account balance at retirement
+  laborInsurance: LaborInsuranceBenefit;
+  retireYear: number;
+}
+
+// Assets that grow on a fixed schedule regardless of market returns: the insurance policies,
+// the 勞退 account and, once retired, a 勞保 lump-sum benefit
+export const guaranteedAssetsAt = (plan: RetirementPlan, yearsFromNow: number, currentYear = new Date().getFullYear()): number => {
+  const yearsToRetire = plan.retirementAge - plan.currentAge;
+  const contributionYears = Math.min(yearsFromNow, yearsToRetire);
+  const lumpSum = yearsFromNow >= yearsToRetire ? laborInsuranceBenefit(plan).lumpSum : 0;
+  return insuranceValueAt(plan, currentYear + yearsFromNow) + laborPensionBalanceAfter(plan, contributionYears * 12) + lumpSum;
+};
+
+// Future value of a lump sum plus level monthly contributions
+export const futureValue = (lumpSum: number, monthly: number, annualReturnPct: number, months: number) => {
+  const monthlyRate = annualReturnPct / 100 / 12;
+  const growth = Math.pow(1 + monthlyRate, months);
+  const fvLumpSum = lumpSum * growth;
+  const fvMonthly = monthlyRate === 0 ? monthly * months : monthly * ((growth - 1) / monthlyRate);
+  return { fvLumpSum, fvMonthly };
+};
+
+// Accumulated (nominal) assets needed to fund the target pension, rising with inflation, until lifeExpectancy.
+// The 勞保 annuity covers part of that spending.
+export const requiredAssets = (plan: RetirementPlan) =>
+  Math.max(0, targetPensionAtRetirement(plan) * 12 * spendingPresentValueFactor(plan) - laborInsurancePresentValue(plan));
+
+// First-year monthly spending, rising with inflation afterwards, that a balance plus the 勞保 annuity can fund until lifeExpectancy
+export const sustainableMonthlyPension = (plan: RetirementPlan, balance: number) =>
+  (balance + laborInsurancePresentValue(plan)) / spendingPresentValueFactor(plan) / 12;
+
+export const projectRetirement = (plan: RetirementPlan, currentYear = new Date().getFullYear()): RetirementProjection | null => {
+  const yearsToRetire = plan.retirementAge - plan.currentAge;
+  if (yearsToRetire <= 0) return null;
+
+  const retireYear = currentYear + yearsToRetire;
+
+  // 1. General Investments (Cash + Stocks) using Expected Return
+  const { fvLumpSum, fvMonthly } = futureValue(plan.currentSavings, plan.monthlySavings, plan.expectedAnnualReturn, yearsToRetire * 12);
+
+  // 2. Insurance policies, valued at the retirement year
+  const fvInsurance = insuranceValueAt(plan, retireYear);
+
+  // 3. 勞退 account (contributions stop at retirement) and 勞保 old-age benefit
+  const fvLaborPension = laborPensionBalanceAfter(plan, yearsToRetire * 12);
+  const laborInsurance = laborInsuranceBenefit(plan);
+
+  const totalAccumulated = fvLumpSum + fvMonthly + fvInsurance + fvLaborPension + laborInsurance.lumpSum;
+  const monthlyPensionPossible = sustainableMonthlyPension(plan, totalAccumulated);
+  const shortfall = Math.max(0, requiredAssets(plan) - totalAccumulated);
+  const { depletionAge } = simulateWithdrawals(plan, totalAccumulated);
+
+  return {
+    result: {
+      yearsToRetire,
+      totalAccumulated,
+      monthlyPensionPossible,
+      isGoalReachable: monthlyPensionPossible >= targetPensionAtRetirement(plan),
+      shortfall,
+      depletionAge,
+      advice: ''
+    },
+    fvLumpSum,
+    fvMonthly,
+    fvInsurance,
+    fvLaborPension,
+    laborInsurance,
+    retireYear,
+  };
+};
+
+export interface AssetCurvePoint {
+  age: number;
+  value: number; // nominal total assets at that age
+}
+
+// Total assets by age: accumulation up to retirementAge, then the withdrawal simulation
+// until lifeExpectancy
+export const assetCurve = (plan: RetirementPlan, currentYear = new Date().getFullYear()): AssetCurvePoint[] => {
+  const yearsToRetire = plan.retirementAge - plan.currentAge;
+  if (yearsToRetire <= 0) return [];
+
+  const points: AssetCurvePoint[] = [];
+  for (let y = 0; y <= yearsToRetire; y++) {
+    const { fvLumpSum, fvMonthly } = futureValue(plan.currentSavings, plan.monthlySavings, plan.expectedAnnualReturn, y * 12);
+    points.push({ age: plan.currentAge + y, value: fvLumpSum + fvMonthly + guaranteedAssetsAt(plan, y, currentYear) });
+  }
+  simulateWithdrawals(plan, points[points.length - 1].value).rows.forEach(row => {
+    points.push({ age: row.age + 1, value: row.endBalance });
+  });
+  return points;
+};
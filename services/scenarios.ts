@@ -0,0 +1,92 @@
+import { RetirementPlan } from "../types";
+import { SavedInsuranceFields, migrateInsurancePolicies } from "./insurance";
+import { createLedgerId } from "./ledger";
+import { normalizeRates } from "./fx";
+
+export interface RetirementScenario {
+  id: string;
+  name: string;
+  plan: RetirementPlan;
+  updatedAt: string;
+}
+
+const SCENARIOS_STORAGE_KEY = 'finance_retirement_scenarios';
+const ACTIVE_SCENARIO_STORAGE_KEY = 'finance_active_scenario';
+// Single-plan storage used before scenarios existed; read once for migration
+const LEGACY_PLAN_STORAGE_KEY = 'finance_retirement_plan';
+
+export const createScenarioId = createLedgerId;
+
+// A plan as stored, possibly by an older version: any field may be missing
+type SavedPlan = Partial<RetirementPlan> & SavedInsuranceFields & {
+  usdTwdRate?: number; // the single FX rate kept before multi-currency support
+};
+
+// Fills defaults for fields missing from older saved plans. A saved 0 is kept (no employer
+// contribution, no monthly savings); only the current and retirement age fall back from 0.
+export const normalizePlan = (parsed: SavedPlan = {}): RetirementPlan => ({
+  currentAge: parsed.currentAge || 30,
+  retirementAge: parsed.retirementAge || 65,
+  currentSavings: parsed.currentSavings ?? 1000000,
+  monthlySavings: parsed.monthlySavings ?? 20000,
+  targetMonthlyPension: parsed.targetMonthlyPension ?? 50000,
+  expectedAnnualReturn: parsed.expectedAnnualReturn ?? 6,
+  // Default Insurance values (User request: 200k, 2.5%, Year 111/2022)
+  insurancePolicies: migrateInsurancePolicies(parsed),
+  // Plans saved before multi-currency support carried a single USD/TWD rate
+  fxRates: normalizeRates(parsed.fxRates || { USD: parsed.usdTwdRate }),
+  lifeExpectancy: parsed.lifeExpectancy ?? 90,
+  retirementReturn: parsed.retirementReturn ?? 4,
+  inflationRate: parsed.inflationRate ?? 2,
+  withdrawalStrategy: parsed.withdrawalStrategy || 'FIXED_REAL',
+  withdrawalRate: parsed.withdrawalRate ?? 4,
+  monthlySalary: parsed.monthlySalary ?? 0,
+  employerPensionRate: parsed.employerPensionRate ?? 6,
+  selfPensionRate: parsed.selfPensionRate ?? 0,
+  laborPensionBalance: parsed.laborPensionBalance ?? 0,
+  laborPensionReturn: parsed.laborPensionReturn ?? 3,
+  laborInsuranceYears: parsed.laborInsuranceYears ?? 0,
+  laborInsuranceSalary: parsed.laborInsuranceSalary ?? 0,
+  laborInsuranceClaimAge: parsed.laborInsuranceClaimAge ?? 65
+});
+
+export const createScenario = (name: string, plan: RetirementPlan): RetirementScenario => ({
+  id: createScenarioId(),
+  name,
+  plan,
+  updatedAt: new Date().toISOString(),
+});
+
+export const loadScenarios = (): RetirementScenario[] => {
+  try {
+    const saved = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    if (saved) {
+      const scenarios: RetirementScenario[] = JSON.parse(saved);
+      if (scenarios.length > 0) return scenarios.map(s => ({ ...s, plan: normalizePlan(s.plan) }));
+    }
+    const legacy = localStorage.getItem(LEGACY_PLAN_STORAGE_KEY);
+    return [createScenario('目前計畫', normalizePlan(legacy ? JSON.parse(legacy) : {}))];
+  } catch {
+    return [createScenario('目前計畫', normalizePlan())];
+  }
+};
+
+export const saveScenarios = (scenarios: RetirementScenario[]) => {
+  localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+};
+
+export const loadActiveScenarioId = (scenarios: RetirementScenario[]): string => {
+  const saved = localStorage.getItem(ACTIVE_SCENARIO_STORAGE_KEY);
+  return scenarios.some(s => s.id === saved) ? saved! : scenarios[0].id;
+};
+
+export const saveActiveScenarioId = (id: string) => {
+  localStorage.setItem(ACTIVE_SCENARIO_STORAGE_KEY, id);
+};
+
+// The scenario the retirement calculator last had open, as saved with its edits
+export const loadActiveScenario = (): RetirementScenario => {
+  const scenarios = loadScenarios();
+  const activeId = loadActiveScenarioId(scenarios);
+  return scenarios.find(s => s.id === activeId)!;
+};
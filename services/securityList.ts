@@ -0,0 +1,131 @@
+import { SecurityRecord } from "../types";
+
+// Bundled security master: the most held TWSE / TPEX codes, so names and validation work
+// offline. The full lists are merged in from an imported file or the exchanges' open data.
+
+type Row = [code: string, name: string, nameEn: string, industry: string, market: SecurityRecord['market']];
+
+const ETF = 'ETF';
+
+const ROWS: Row[] = [
+  // ETFs
+  ['0050', '元大台灣50', 'Yuanta Taiwan Top 50 ETF', ETF, 'TWSE'],
+  ['0051', '元大中型100', 'Yuanta Taiwan Mid-Cap 100 ETF', ETF, 'TWSE'],
+  ['0052', '富邦科技', 'Fubon Taiwan Technology ETF', ETF, 'TWSE'],
+  ['0056', '元大高股息', 'Yuanta Taiwan Dividend Plus ETF', ETF, 'TWSE'],
+  ['006208', '富邦台50', 'Fubon FTSE TWSE Taiwan 50 ETF', ETF, 'TWSE'],
+  ['00646', '元大S&P500', 'Yuanta S&P 500 ETF', ETF, 'TWSE'],
+  ['00662', '富邦NASDAQ', 'Fubon NASDAQ-100 ETF', ETF, 'TWSE'],
+  ['00692', '富邦公司治理', 'Fubon Taiwan Corporate Governance 100 ETF', ETF, 'TWSE'],
+  ['00713', '元大台灣高息低波', 'Yuanta Taiwan High Dividend Low Volatility ETF', ETF, 'TWSE'],
+  ['00757', '統一FANG+', 'Uni-President NYSE FANG+ ETF', ETF, 'TWSE'],
+  ['00850', '元大臺灣ESG永續', 'Yuanta Taiwan ESG Sustainability ETF', ETF, 'TWSE'],
+  ['00878', '國泰永續高股息', 'Cathay MSCI Taiwan ESG Sustainability High Dividend Yield ETF', ETF, 'TWSE'],
+  ['00881', '國泰台灣5G+', 'Cathay Taiwan 5G+ ETF', ETF, 'TWSE'],
+  ['00900', '富邦特選高股息30', 'Fubon Taiwan Dividend+ 30 ETF', ETF, 'TWSE'],
+  ['00919', '群益台灣精選高息', 'Capital Taiwan Select High Dividend ETF', ETF, 'TWSE'],
+  ['00929', '復華台灣科技優息', 'Fuh Hwa Taiwan Technology Dividend Highlight ETF', ETF, 'TWSE'],
+  ['00939', '統一台灣高息動能', 'Uni-President Taiwan High Dividend Momentum ETF', ETF, 'TWSE'],
+  ['00940', '元大台灣價值高息', 'Yuanta Taiwan Value High Dividend ETF', ETF, 'TWSE'],
+  ['00679B', '元大美債20年', 'Yuanta U.S. Treasury 20+ Year Bond ETF', ETF, 'TPEX'],
+  ['00687B', '國泰20年美債', 'Cathay 20+ Year U.S. Treasury Bond ETF', ETF, 'TPEX'],
+  ['00937B', '群益ESG投等債20+', 'Capital ICE ESG 20+ Year BBB US Corporate ETF', ETF, 'TPEX'],
+
+  // TWSE listed
+  ['1101', '台泥', 'Taiwan Cement', '水泥工業', 'TWSE'],
+  ['1102', '亞泥', 'Asia Cement', '水泥工業', 'TWSE'],
+  ['1216', '統一', 'Uni-President Enterprises', '食品工業', 'TWSE'],
+  ['1301', '台塑', 'Formosa Plastics', '塑膠工業', 'TWSE'],
+  ['1303', '南亞', 'Nan Ya Plastics', '塑膠工業', 'TWSE'],
+  ['1326', '台化', 'Formosa Chemicals & Fibre', '塑膠工業', 'TWSE'],
+  ['1402', '遠東新', 'Far Eastern New Century', '紡織纖維', 'TWSE'],
+  ['1476', '儒鴻', 'Eclat Textile', '紡織纖維', 'TWSE'],
+  ['1590', '亞德客-KY', 'Airtac International', '電機機械', 'TWSE'],
+  ['1605', '華新', 'Walsin Lihwa', '電器電纜', 'TWSE'],
+  ['2002', '中鋼', 'China Steel', '鋼鐵工業', 'TWSE'],
+  ['2105', '正新', 'Cheng Shin Rubber', '橡膠工業', 'TWSE'],
+  ['2207', '和泰車', 'Hotai Motor', '汽車工業', 'TWSE'],
+  ['2301', '光寶科', 'Lite-On Technology', '電腦及週邊設備業', 'TWSE'],
+  ['2303', '聯電', 'United Microelectronics', '半導體業', 'TWSE'],
+  ['2308', '台達電', 'Delta Electronics', '電子零組件業', 'TWSE'],
+  ['2317', '鴻海', 'Hon Hai Precision', '其他電子業', 'TWSE'],
+  ['2324', '仁寶', 'Compal Electronics', '電腦及週邊設備業', 'TWSE'],
+  ['2327', '國巨', 'Yageo', '電子零組件業', 'TWSE'],
+  ['2330', '台積電', 'TSMC', '半導體業', 'TWSE'],
+  ['2337', '旺宏', 'Macronix', '半導體業', 'TWSE'],
+  ['2344', '華邦電', 'Winbond Electronics', '半導體業', 'TWSE'],
+  ['2345', '智邦', 'Accton Technology', '通信網路業', 'TWSE'],
+  ['2356', '英業達', 'Inventec', '電腦及週邊設備業', 'TWSE'],
+  ['2357', '華碩', 'ASUSTeK Computer', '電腦及週邊設備業', 'TWSE'],
+  ['2376', '技嘉', 'Gigabyte Technology', '電腦及週邊設備業', 'TWSE'],
+  ['2377', '微星', 'Micro-Star International', '電腦及週邊設備業', 'TWSE'],
+  ['2379', '瑞昱', 'Realtek Semiconductor', '半導體業', 'TWSE'],
+  ['2382', '廣達', 'Quanta Computer', '電腦及週邊設備業', 'TWSE'],
+  ['2395', '研華', 'Advantech', '電腦及週邊設備業', 'TWSE'],
+  ['2408', '南亞科', 'Nanya Technology', '半導體業', 'TWSE'],
+  ['2409', '友達', 'AUO', '光電業', 'TWSE'],
+  ['2412', '中華電', 'Chunghwa Telecom', '通信網路業', 'TWSE'],
+  ['2449', '京元電子', 'King Yuan Electronics', '半導體業', 'TWSE'],
+  ['2454', '聯發科', 'MediaTek', '半導體業', 'TWSE'],
+  ['2474', '可成', 'Catcher Technology', '其他電子業', 'TWSE'],
+  ['2603', '長榮', 'Evergreen Marine', '航運業', 'TWSE'],
+  ['2609', '陽明', 'Yang Ming Marine Transport', '航運業', 'TWSE'],
+  ['2610', '華航', 'China Airlines', '航運業', 'TWSE'],
+  ['2615', '萬海', 'Wan Hai Lines', '航運業', 'TWSE'],
+  ['2618', '長榮航', 'EVA Airways', '航運業', 'TWSE'],
+  ['2801', '彰銀', 'Chang Hwa Bank', '金融保險業', 'TWSE'],
+  ['2834', '臺企銀', 'Taiwan Business Bank', '金融保險業', 'TWSE'],
+  ['2880', '華南金', 'Hua Nan Financial', '金融保險業', 'TWSE'],
+  ['2881', '富邦金', 'Fubon Financial', '金融保險業', 'TWSE'],
+  ['2882', '國泰金', 'Cathay Financial', '金融保險業', 'TWSE'],
+  ['2884', '玉山金', 'E.SUN Financial', '金融保險業', 'TWSE'],
+  ['2885', '元大金', 'Yuanta Financial', '金融保險業', 'TWSE'],
+  ['2886', '兆豐金', 'Mega Financial', '金融保險業', 'TWSE'],
+  ['2890', '永豐金', 'SinoPac Financial', '金融保險業', 'TWSE'],
+  ['2891', '中信金', 'CTBC Financial', '金融保險業', 'TWSE'],
+  ['2892', '第一金', 'First Financial', '金融保險業', 'TWSE'],
+  ['2912', '統一超', 'President Chain Store', '貿易百貨業', 'TWSE'],
+  ['3008', '大立光', 'Largan Precision', '光電業', 'TWSE'],
+  ['3017', '奇鋐', 'Asia Vital Components', '電腦及週邊設備業', 'TWSE'],
+  ['3034', '聯詠', 'Novatek Microelectronics', '半導體業', 'TWSE'],
+  ['3037', '欣興', 'Unimicron Technology', '電子零組件業', 'TWSE'],
+  ['3042', '晶技', 'TXC', '電子零組件業', 'TWSE'],
+  ['3045', '台灣大', 'Taiwan Mobile', '通信網路業', 'TWSE'],
+  ['3231', '緯創', 'Wistron', '電腦及週邊設備業', 'TWSE'],
+  ['3443', '創意', 'Global Unichip', '半導體業', 'TWSE'],
+  ['3661', '世芯-KY', 'Alchip Technologies', '半導體業', 'TWSE'],
+  ['3711', '日月光投控', 'ASE Technology', '半導體業', 'TWSE'],
+  ['4564', '元翎', 'Mosa Industrial', '電機機械', 'TWSE'],
+  ['4904', '遠傳', 'Far EasTone', '通信網路業', 'TWSE'],
+  ['4938', '和碩', 'Pegatron', '電腦及週邊設備業', 'TWSE'],
+  ['5871', '中租-KY', 'Chailease Holding', '其他業', 'TWSE'],
+  ['5880', '合庫金', 'Taiwan Cooperative Financial', '金融保險業', 'TWSE'],
+  ['6505', '台塑化', 'Formosa Petrochemical', '油電燃氣業', 'TWSE'],
+  ['6669', '緯穎', 'Wiwynn', '電腦及週邊設備業', 'TWSE'],
+  ['6890', '來億-KY', 'Lai Yih Footwear', '其他業', 'TWSE'],
+  ['9904', '寶成', 'Pou Chen', '其他業', 'TWSE'],
+  ['9910', '豐泰', 'Feng Tay Enterprises', '其他業', 'TWSE'],
+
+  // TPEX (OTC)
+  ['3105', '穩懋', 'WIN Semiconductors', '半導體業', 'TPEX'],
+  ['3293', '鈊象', 'International Games System', '文化創意業', 'TPEX'],
+  ['3324', '雙鴻', 'Auras Technology', '電腦及週邊設備業', 'TPEX'],
+  ['3529', '力旺', 'eMemory Technology', '半導體業', 'TPEX'],
+  ['4966', '譜瑞-KY', 'Parade Technologies', '半導體業', 'TPEX'],
+  ['5274', '信驊', 'ASPEED Technology', '半導體業', 'TPEX'],
+  ['5347', '世界', 'Vanguard International Semiconductor', '半導體業', 'TPEX'],
+  ['5483', '中美晶', 'Sino-American Silicon', '半導體業', 'TPEX'],
+  ['6147', '頎邦', 'Chipbond Technology', '半導體業', 'TPEX'],
+  ['6488', '環球晶', 'GlobalWafers', '半導體業', 'TPEX'],
+  ['8069', '元太', 'E Ink Holdings', '光電業', 'TPEX'],
+  ['8299', '群聯', 'Phison Electronics', '半導體業', 'TPEX'],
+];
+
+export const BUNDLED_SECURITIES: SecurityRecord[] = ROWS.map(([code, name, nameEn, industry, market]) => ({
+  code,
+  name,
+  nameEn,
+  industry: industry === ETF ? undefined : industry,
+  market,
+  isEtf: industry === ETF,
+}));
@@ -0,0 +1,164 @@
+import { SecurityRecord } from "../types";
+import { BUNDLED_SECURITIES } from "./securityList";
+import { fetchTwseTpexListings } from "./marketData";
+import { SymbolParseResult, parseSymbolInput } from "./exchanges";
+
+// Identity of Taiwan codes: the bundled list, overlaid with whatever the user imported.
+// Used to validate added symbols, autocomplete the add-symbol input and name symbols in prompts.
+
+const SECURITY_MASTER_STORAGE_KEY = 'finance_security_master';
+
+// Taiwan ETF codes start with 00 (0050, 006208, 00679B)
+const isEtfCode = (code: string) => code.startsWith('00');
+
+const mergeRecords = (base: SecurityRecord[], overlay: SecurityRecord[]): SecurityRecord[] => {
+  const byCode = new Map(base.map(r => [r.code, r]));
+  overlay.forEach(r => {
+    const existing = byCode.get(r.code);
+    // Keep bundled English names and industries when the overlay lacks them
+    byCode.set(r.code, existing
+      ? { ...existing, ...r, nameEn: r.nameEn || existing.nameEn, industry: r.industry || existing.industry }
+      : r);
+  });
+  return Array.from(byCode.values()).sort((a, b) => a.code.localeCompare(b.code));
+};
+
+// --- Persistence ---
+
+const loadImported = (): SecurityRecord[] => {
+  try {
+    const saved = localStorage.getItem(SECURITY_MASTER_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const loadSecurityMaster = (): SecurityRecord[] => mergeRecords(BUNDLED_SECURITIES, loadImported());
+
+const saveImported = (records: SecurityRecord[]) => {
+  localStorage.setItem(SECURITY_MASTER_STORAGE_KEY, JSON.stringify(records));
+};
+
+// Drops imported rows, back to the bundled list
+export const resetSecurityMaster = () => {
+  localStorage.removeItem(SECURITY_MASTER_STORAGE_KEY);
+};
+
+// --- Import ---
+
+const toRecord = (raw: Record<string, unknown>): SecurityRecord | null => {
+  const code = String(raw.code ?? '').trim().toUpperCase();
+  const name = String(raw.name ?? '').trim();
+  const market = String(raw.market ?? '').trim().toUpperCase();
+  if (!code || !name || (market !== 'TWSE' && market !== 'TPEX')) return null;
+  const etf = String(raw.isEtf ?? '').trim().toLowerCase();
+  return {
+    code,
+    name,
+    nameEn: raw.nameEn ? String(raw.nameEn).trim() : undefined,
+    industry: raw.industry ? String(raw.industry).trim() : undefined,
+    market,
+    isEtf: etf === '' ? isEtfCode(code) : etf === 'true' || etf === '1' || etf === 'y',
+  };
+};
+
+// Accepts a JSON array of SecurityRecord or a CSV with a header row
+// (code,name,market[,nameEn,industry,isEtf]); market is TWSE or TPEX
+export const parseSecurityList = (text: string): SecurityRecord[] => {
+  const trimmed = text.trim();
+  let rows: Record<string, unknown>[];
+
+  if (trimmed.startsWith('[')) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error("Security list JSON must be an array");
+    rows = parsed;
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const columns = header.split(',').map(c => c.trim());
+    ['code', 'name', 'market'].forEach(required => {
+      if (!columns.includes(required)) throw new Error(`Security list CSV is missing column "${required}"`);
+    });
+    rows = lines.map(line => {
+      const cells = line.split(',').map(c => c.trim());
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i]]));
+    });
+  }
+
+  return rows.map(toRecord).filter((r): r is SecurityRecord => r !== null);
+};
+
+// Parses and stores an imported list on top of earlier imports; returns the number of rows loaded
+export const importSecurityList = (text: string): number => {
+  const records = parseSecurityList(text);
+  if (records.length === 0) throw new Error("No securities found in file");
+  saveImported(mergeRecords(loadImported(), records));
+  return records.length;
+};
+
+// Pulls every code currently trading from the TWSE / TPEX open data; returns the number of codes
+export const refreshSecurityMasterFromExchanges = async (): Promise<number> => {
+  const listings = await fetchTwseTpexListings();
+  const records: SecurityRecord[] = Object.entries(listings).map(([code, listing]) => ({
+    code,
+    name: listing.name,
+    market: listing.market,
+    isEtf: isEtfCode(code),
+  }));
+  saveImported(mergeRecords(loadImported(), records));
+  return records.length;
+};
+
+// --- Lookup ---
+
+export const findSecurity = (master: SecurityRecord[], code: string): SecurityRecord | undefined =>
+  master.find(r => r.code === code);
+
+// Code or name search for autocomplete: exact code, code prefix, name prefix, then name contains
+export const searchSecurities = (master: SecurityRecord[], query: string, limit = 8): SecurityRecord[] => {
+  const q = query.trim().toUpperCase();
+  if (!q) return [];
+  const rank = (r: SecurityRecord): number => {
+    const nameEn = (r.nameEn || '').toUpperCase();
+    if (r.code === q) return 0;
+    if (r.code.startsWith(q)) return 1;
+    if (r.name.startsWith(q) || nameEn.startsWith(q)) return 2;
+    if (r.name.includes(q) || nameEn.includes(q)) return 3;
+    return -1;
+  };
+  return master
+    .map(r => ({ r, score: rank(r) }))
+    .filter(x => x.score >= 0)
+    .sort((a, b) => a.score - b.score || a.r.code.localeCompare(b.r.code))
+    .slice(0, limit)
+    .map(x => x.r);
+};
+
+const describe = (r: SecurityRecord) => `${r.code} ${r.name}`;
+
+// Symbol input checked against the master: names resolve to their code, Taiwan codes must exist.
+// Foreign listings (with an exchange suffix) pass through the exchange parser unchanged.
+export const resolveSymbolInput = (raw: string, master: SecurityRecord[]): SymbolParseResult => {
+  const input = raw.trim();
+  const byName = master.filter(r => r.name === input || (r.nameEn || '').toUpperCase() === input.toUpperCase());
+  if (byName.length === 1) return { ok: true, symbol: byName[0].code, market: 'TW', exchange: byName[0].market };
+
+  const parsed = parseSymbolInput(input);
+  if (parsed.ok === false) {
+    const suggestions = searchSecurities(master, input, 3);
+    if (suggestions.length === 0) return parsed;
+    return { ok: false, input: parsed.input, reason: `查無此代碼或名稱，您是不是要找 ${suggestions.map(describe).join('、')}？` };
+  }
+  if (parsed.market !== 'TW') return parsed;
+
+  const record = findSecurity(master, parsed.symbol);
+  if (!record) {
+    const suggestions = searchSecurities(master, parsed.symbol, 3);
+    const hint = suggestions.length > 0 ? `，您是不是要找 ${suggestions.map(describe).join('、')}？` : '，可匯入最新證券清單';
+    return { ok: false, input, reason: `證券主檔查無此代碼${hint}` };
+  }
+  if (parsed.exchange && parsed.exchange !== record.market) {
+    return { ok: false, input, reason: `${describe(record)} 掛牌於 ${record.market}，不是 ${parsed.exchange}` };
+  }
+  return { ...parsed, exchange: record.market };
+};
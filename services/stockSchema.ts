@@ -0,0 +1,292 @@
+import { StockAnalysis, AnalysisFailure, AnalysisBatchResult, AnalysisSource } from "../types";
+import { CURRENCIES } from "./fx";
+import { symbolCode, toSymbolKey } from "./exchanges";
+
+// Runtime schema for StockAnalysis. The mapped type makes the compiler reject the
+// schema whenever a field is added to or removed from the interface.
+type FieldSpec =
+  | { kind: 'string'; required: boolean }
+  | { kind: 'number'; required: boolean }
+  | { kind: 'enum'; required: boolean; values: readonly string[] }
+  | { kind: 'sources'; required: boolean };
+
+type Schema<T> = { [K in keyof T]-?: FieldSpec };
+
+const RECOMMENDATIONS = ['BUY', 'SELL', 'HOLD'] as const;
+const QUOTE_SESSIONS = ['PRE_OPEN', 'INTRADAY', 'CLOSE'] as const;
+
+export const STOCK_ANALYSIS_SCHEMA: Schema<StockAnalysis> = {
+  symbol: { kind: 'string', required: true },
+  name: { kind: 'string', required: true },
+  marketCap: { kind: 'string', required: false },
+  high52Week: { kind: 'number', required: true },
+  low52Week: { kind: 'number', required: true },
+  currentPrice: { kind: 'number', required: true },
+  suggestBuyPrice: { kind: 'number', required: true },
+  suggestSellPrice: { kind: 'number', required: true },
+  recommendation: { kind: 'enum', required: true, values: RECOMMENDATIONS },
+  analysis: { kind: 'string', required: true },
+  projectedAnnualYield: { kind: 'string', required: false },
+  exampleScenario: { kind: 'string', required: false },
+  quoteSource: { kind: 'string', required: false },
+  quoteAsOf: { kind: 'string', required: false },
+  quoteTime: { kind: 'string', required: false },
+  quoteFetchedAt: { kind: 'string', required: false },
+  quoteSession: { kind: 'enum', required: false, values: QUOTE_SESSIONS },
+  currency: { kind: 'enum', required: false, values: CURRENCIES },
+  sources: { kind: 'sources', required: false },
+};
+
+// Common ways the model spells a recommendation
+const RECOMMENDATION_ALIASES: Record<string, StockAnalysis['recommendation']> = {
+  BUY: 'BUY', 'STRONG BUY': 'BUY', '買進': 'BUY', '買入': 'BUY', '加碼': 'BUY',
+  SELL: 'SELL', 'STRONG SELL': 'SELL', '賣出': 'SELL', '減碼': 'SELL',
+  HOLD: 'HOLD', NEUTRAL: 'HOLD', '續抱': 'HOLD', '觀望': 'HOLD', '持有': 'HOLD',
+};
+
+// "2330.TW", "2330 台積電", " 2330 " -> "2330"; foreign listings keep their suffix ("aapl.us" -> "AAPL.US")
+export const normalizeSymbol = (raw: string): string => toSymbolKey(raw);
+
+// Pull the JSON payload out of a model response. Throws instead of guessing.
+export const parseJsonPayload = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?([\s\S]*?)```/);
+  if (fenced && fenced[1].trim()) {
+    return JSON.parse(fenced[1]);
+  }
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start !== -1 && end > start) {
+    return JSON.parse(text.slice(start, end + 1));
+  }
+  return JSON.parse(text);
+};
+
+// Incremental reader for a streamed JSON array: push text as it arrives and get back each
+// top-level element once its closing brace has been seen. Text before the first '[' (a code
+// fence, a preamble) is skipped; an element that doesn't parse is dropped, the final
+// validation of the full text reports it. spans() gives each element's [start, end) offsets
+// in the text pushed so far.
+export const createJsonArrayReader = () => {
+  let buffer = '';
+  let position = 0;
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+  const spans: { start: number; end: number }[] = [];
+
+  const push = (chunk: string): unknown[] => {
+    buffer += chunk;
+    const elements: unknown[] = [];
+    for (; position < buffer.length; position++) {
+      const ch = buffer[position];
+      if (!started) {
+        if (ch === '[') { started = true; depth = 1; }
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (depth === 1) elementStart = position;
+        depth += 1;
+      } else if (ch === '}' || ch === ']') {
+        depth -= 1;
+        if (depth === 1 && elementStart >= 0) {
+          try {
+            elements.push(JSON.parse(buffer.slice(elementStart, position + 1)));
+            spans.push({ start: elementStart, end: position + 1 });
+          } catch {
+            // left to the final validation
+          }
+          elementStart = -1;
+        }
+      }
+    }
+    return elements;
+  };
+
+  return { push, spans: () => spans };
+};
+
+const hostname = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+};
+
+// Keeps entries with an http(s) URL, one per URL; dates like 2025/6/3 become 2025-06-03
+export const normalizeSources = (value: unknown): AnalysisSource[] => {
+  if (!Array.isArray(value)) return [];
+  const byUrl = new Map<string, AnalysisSource>();
+  value.forEach(raw => {
+    if (!raw || typeof raw !== 'object') return;
+    const item = raw as Record<string, unknown>;
+    const url = String(item.url ?? '').trim();
+    if (!/^https?:\/\//i.test(url) || byUrl.has(url)) return;
+    const date = String(item.publishedAt ?? '').trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    byUrl.set(url, {
+      url,
+      title: String(item.title ?? '').trim() || hostname(url),
+      publishedAt: date ? `${date[1]}-${date[2].padStart(2, '0')}-${date[3].padStart(2, '0')}` : undefined,
+      grounded: item.grounded === true,
+      stale: item.stale === true ? true : undefined,
+    });
+  });
+  return Array.from(byUrl.values());
+};
+
+interface ItemValidation {
+  value: StockAnalysis | null;
+  errors: string[];
+  repairs: string[];
+}
+
+const repairNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  // "1,234.5", "NT$ 590", "約 600 元": take the first number
+  const match = value.replace(/,/g, '').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+// Validate one item, repairing what can be repaired safely
+export const validateStockAnalysis = (raw: unknown): ItemValidation => {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { value: null, errors: ['項目不是物件'], repairs };
+  }
+
+  const input = raw as Record<string, unknown>;
+  const output: Record<string, unknown> = {};
+
+  (Object.keys(STOCK_ANALYSIS_SCHEMA) as (keyof StockAnalysis)[]).forEach(field => {
+    const spec = STOCK_ANALYSIS_SCHEMA[field];
+    const value = input[field];
+
+    if (value === undefined || value === null || value === '') {
+      if (spec.required) errors.push(`缺少欄位 ${field}`);
+      return;
+    }
+
+    switch (spec.kind) {
+      case 'number': {
+        const n = repairNumber(value);
+        if (n === null) {
+          errors.push(`${field} 不是數字 (${JSON.stringify(value)})`);
+        } else {
+          if (typeof value !== 'number') repairs.push(`${field}: ${JSON.stringify(value)} -> ${n}`);
+          output[field] = n;
+        }
+        break;
+      }
+      case 'enum': {
+        const key = String(value).trim().toUpperCase();
+        // Only recommendations come back in words ("買進", "Strong Buy"); other enums must match
+        const mapped = field === 'recommendation'
+          ? RECOMMENDATION_ALIASES[key] ?? RECOMMENDATION_ALIASES[String(value).trim()]
+          : undefined;
+        if (spec.values.includes(key)) {
+          output[field] = key;
+        } else if (mapped && spec.values.includes(mapped)) {
+          repairs.push(`${field}: ${JSON.stringify(value)} -> ${mapped}`);
+          output[field] = mapped;
+        } else {
+          errors.push(`${field} 必須是 ${spec.values.join('/')} (${JSON.stringify(value)})`);
+        }
+        break;
+      }
+      case 'sources': {
+        const sources = normalizeSources(value);
+        if (sources.length > 0) output[field] = sources;
+        break;
+      }
+      default:
+        output[field] = String(value);
+    }
+  });
+
+  if (typeof output.symbol === 'string') {
+    const normalized = normalizeSymbol(output.symbol);
+    if (normalized !== output.symbol) repairs.push(`symbol: ${output.symbol} -> ${normalized}`);
+    output.symbol = normalized;
+  }
+
+  if (errors.length > 0) return { value: null, errors, repairs };
+  return { value: output as unknown as StockAnalysis, errors, repairs };
+};
+
+// Validate a whole response. With `requestedSymbols`, every requested symbol must
+// come back exactly once and unrequested symbols are rejected.
+export const validateAnalysisBatch = (
+  payload: unknown,
+  requestedSymbols?: string[],
+  prepare: (item: Record<string, unknown>) => unknown = item => item
+): AnalysisBatchResult => {
+  const failures: AnalysisFailure[] = [];
+  const stocks: StockAnalysis[] = [];
+
+  if (!Array.isArray(payload)) {
+    (requestedSymbols || []).forEach(symbol => failures.push({ symbol, reason: '回應不是 JSON 陣列' }));
+    return { stocks, failures };
+  }
+
+  const requested = requestedSymbols ? new Set(requestedSymbols) : null;
+  const seen = new Set<string>();
+
+  // The model sometimes drops the exchange suffix ("AAPL" for "AAPL.US"); map a bare ticker back
+  // to the requested symbol when exactly one requested symbol has that ticker
+  const matchRequested = (symbol: string): string => {
+    if (!requestedSymbols || requested!.has(symbol)) return symbol;
+    const candidates = requestedSymbols.filter(r => symbolCode(r) === symbolCode(symbol));
+    return candidates.length === 1 ? candidates[0] : symbol;
+  };
+
+  payload.forEach((raw, index) => {
+    const item = raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+    const base = item && typeof item.symbol === 'string'
+      ? { ...item, symbol: matchRequested(normalizeSymbol(item.symbol)) }
+      : item;
+    const { value, errors, repairs } = validateStockAnalysis(base ? prepare(base) : raw);
+    const label = typeof base?.symbol === 'string' && base.symbol ? base.symbol : `#${index + 1}`;
+
+    if (repairs.length > 0) console.warn(`Repaired analysis for ${label}:`, repairs);
+
+    if (!value) {
+      if (requested && !requested.has(label)) {
+        console.warn(`Dropping invalid unrequested item ${label}:`, errors);
+      } else {
+        failures.push({ symbol: label, reason: errors.join('；') });
+      }
+      return;
+    }
+    if (requested && !requested.has(value.symbol)) {
+      console.warn(`Dropping unrequested symbol ${value.symbol}`);
+      return;
+    }
+    if (seen.has(value.symbol)) return;
+
+    seen.add(value.symbol);
+    stocks.push(value);
+  });
+
+  if (requested) {
+    requested.forEach(symbol => {
+      if (!seen.has(symbol) && !failures.some(f => f.symbol === symbol)) {
+        failures.push({ symbol, reason: '回應中缺少此代碼' });
+      }
+    });
+  }
+
+  return { stocks, failures };
+};
@@ -11,6 +11,230 @@ export interface StockAnalysis {
   analysis: string;
   projectedAnnualYield: string; // e.g. "8-12%"
   exampleScenario: string;
+  // Where the numeric quote fields came from (market data provider id)
+  quoteSource?: string;
+  quoteAsOf?: string; // YYYY-MM-DD of the quoted price
+  quoteTime?: string; // "YYYY-MM-DD HH:MM" market local time the price is from
+  quoteFetchedAt?: string; // ISO time the quote was fetched
+  quoteSession?: QuoteSession; // session the quoted price belongs to
+  currency?: Currency; // trading currency of the quote
+  sources?: AnalysisSource[]; // what the analysis text was based on
+}
+
+// A web page behind an analysis
+export interface AnalysisSource {
+  url: string;
+  title: string;
+  publishedAt?: string; // YYYY-MM-DD, as reported by the model
+  grounded: boolean; // backed by the search grounding metadata, not only listed by the model
+  stale?: boolean; // published before the date the session's price rule asks for
+}
+
+// INTRADAY: a snapshot of today's bar during trading hours; PRE_OPEN: the previous close,
+// fetched before today's open; CLOSE: a finished day's close
+export type QuoteSession = 'PRE_OPEN' | 'INTRADAY' | 'CLOSE';
+
+// Listing venue of a symbol. US covers a US listing whose venue was not given (AAPL.US);
+// all US venues share one calendar.
+export type ExchangeId = 'TWSE' | 'TPEX' | 'NASDAQ' | 'NYSE' | 'US' | 'HKEX' | 'TSE';
+
+// One row of the security master: identity of a Taiwan listed (TWSE) or OTC (TPEX) code
+export interface SecurityRecord {
+  code: string;
+  name: string; // 簡稱, e.g. 台積電
+  nameEn?: string;
+  industry?: string; // 產業別, e.g. 半導體業
+  market: 'TWSE' | 'TPEX';
+  isEtf: boolean;
+}
+
+// A symbol whose analysis could not be produced or validated
+export interface AnalysisFailure {
+  symbol: string;
+  reason: string;
+}
+
+export interface AnalysisBatchResult {
+  stocks: StockAnalysis[];
+  failures: AnalysisFailure[];
+  cachedAt?: string; // ISO time of the cached response this result was served from
+}
+
+// Quote returned by a MarketDataProvider (numbers never come from the LLM)
+export interface MarketQuote {
+  symbol: string;
+  name?: string;
+  currentPrice: number;
+  high52Week: number;
+  low52Week: number;
+  asOf: string; // YYYY-MM-DD
+  source: string;
+  currency?: Currency;
+  time?: string; // "YYYY-MM-DD HH:MM" market local time, stamped on fetch
+  fetchedAt?: string; // ISO
+  session?: QuoteSession;
+}
+
+// One trading day of OHLCV data (volume in shares)
+export interface PriceBar {
+  date: string; // YYYY-MM-DD
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Latest values of the technical indicators computed from stored price history.
+// A field is null when there isn't enough history to compute it.
+export interface TechnicalIndicators {
+  asOf: string; // date of the last bar used
+  close: number;
+  ma5: number | null;
+  ma20: number | null;
+  ma60: number | null;
+  rsi14: number | null;
+  macd: { dif: number; dea: number; histogram: number } | null;
+  kd: { k: number; d: number } | null;
+  bollinger: { upper: number; middle: number; lower: number } | null;
+  volumeMa5: number | null;
+  volumeMa20: number | null;
+}
+
+export type LedgerEntryType = 'BUY' | 'SELL' | 'DIVIDEND';
+
+// One line of the trade ledger. For DIVIDEND entries `price` is the cash paid per share
+// and `quantity` the shares held on the ex-dividend date.
+export interface LedgerEntry {
+  id: string;
+  symbol: string;
+  type: LedgerEntryType;
+  date: string; // YYYY-MM-DD
+  price: number;
+  quantity: number;
+  fee: number; // brokerage fee (手續費)
+  tax: number; // securities transaction tax (證交稅), sells only
+  note?: string;
+}
+
+export type CostBasisMethod = 'AVERAGE' | 'FIFO';
+
+export interface PositionSummary {
+  symbol: string;
+  quantity: number;
+  costBasis: number; // remaining cost of held shares, buy fees included
+  averageCost: number;
+  realizedTradingPnL: number;
+  dividendIncome: number;
+  realizedPnL: number; // trading + dividends
+}
+
+// A declared dividend (配息/配股). Stock dividends are quoted in NT$ of par value (NT$10),
+// so 1 元 of stock dividend = 0.1 new share per share held.
+export interface DividendEvent {
+  id: string;
+  symbol: string;
+  exDate: string; // 除權息日 YYYY-MM-DD
+  payDate?: string; // 發放日
+  cashPerShare: number;
+  stockPerShare: number;
+  // Filled once the payment has been recorded into the ledger
+  receivedCash?: number;
+  receivedShares?: number;
+  heldQuantity?: number;
+  ledgerEntryIds?: string[]; // entries the receipt added to the ledger, removed with the event
+}
+
+export type AlertRuleType = 'PRICE_CROSS' | 'PERCENT_MOVE' | 'NEAR_52W' | 'RECOMMENDATION_CHANGE';
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  // PRICE_CROSS: which level to watch and from which side
+  level?: 'SUGGEST_BUY' | 'SUGGEST_SELL' | 'CUSTOM';
+  price?: number; // CUSTOM level
+  direction?: 'ABOVE' | 'BELOW';
+  // PERCENT_MOVE: move vs. referencePrice; NEAR_52W: distance to the extreme
+  percent?: number;
+  referencePrice?: number;
+  extreme?: 'HIGH' | 'LOW';
+  createdAt: string;
+  lastTriggeredAt?: string;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  triggeredAt: string; // ISO timestamp
+}
+
+export type WithdrawalStrategy = 'FIXED_REAL' | 'FIXED_PERCENT' | 'GUARDRAILS';
+
+export type Currency = 'TWD' | 'USD' | 'HKD' | 'JPY' | 'CNY' | 'EUR';
+
+// TWD per one unit of each currency (TWD itself is always 1)
+export type FxRates = Record<Currency, number>;
+
+export type FxSource = 'MANUAL' | 'FILE' | 'PROVIDER';
+
+export interface FxSettings {
+  baseCurrency: Currency; // portfolio and retirement totals are shown in this currency
+  source: FxSource; // where the current rates came from
+  rates: FxRates;
+  asOf: string; // YYYY-MM-DD of the rates
+}
+
+export type AIFeature = 'trends' | 'portfolio' | 'retirement' | 'assistant';
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+// A function the model called while answering, with the computed result it was given
+export interface AIToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
+}
+
+// One turn of the portfolio assistant conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string; // ISO
+  toolCalls?: AIToolCall[]; // calculations behind an assistant answer
+}
+
+export interface AISettings {
+  providerId: AIProviderId;
+  models: Record<AIFeature, string>; // model name per feature, for the selected provider
+  baseUrl: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey: string; // bearer token for that server; local servers usually need none
+}
+
+export interface DeclaredRate {
+  fromYear: number; // calendar year the rate applies from
+  rate: number; // % per year
+}
+
+export interface CashValueRow {
+  policyYear: number; // 1 = the year of the first premium
+  value: number; // surrender / cash value at the end of that policy year, in the policy currency
+}
+
+export interface InsurancePolicy {
+  id: string;
+  name: string;
+  currency: Currency;
+  annualPremium: number; // in the policy currency
+  premiumStartYear: number;
+  premiumYears: number; // 1 for a single-premium or already paid-up policy
+  valuation: 'RATE' | 'TABLE';
+  declaredRates: DeclaredRate[]; // RATE mode; in TABLE mode used to extend past the end of the table
+  cashValues: CashValueRow[];
 }
 
 export interface RetirementPlan {
@@ -20,18 +244,37 @@ export interface RetirementPlan {
   monthlySavings: number;
   targetMonthlyPension: number;
   expectedAnnualReturn: number;
-  // Insurance specific fields
-  insurancePrincipal: number;
-  insuranceRate: number;
-  insuranceYearDone: number;
+  // Savings insurance
+  insurancePolicies: InsurancePolicy[];
+  fxRates: FxRates; // to value foreign-currency policies; synced from the FX settings
+  // Withdrawal phase
+  lifeExpectancy: number;
+  retirementReturn: number; // % per year once retired, usually more conservative
+  inflationRate: number; // % per year; targetMonthlyPension is in today's money
+  withdrawalStrategy: WithdrawalStrategy;
+  withdrawalRate: number; // % of the balance, for FIXED_PERCENT and the GUARDRAILS starting rate
+  // 勞退 individual account
+  monthlySalary: number;
+  employerPensionRate: number; // %, at least 6 for employees; 0 when self-employed
+  selfPensionRate: number; // % voluntary contribution, 0-6
+  laborPensionBalance: number; // current account balance
+  laborPensionReturn: number; // % per year
+  // 勞保老年年金
+  laborInsuranceYears: number; // insured years so far; years until retirementAge are added
+  laborInsuranceSalary: number; // average monthly insured salary
+  laborInsuranceClaimAge: number;
 }
 
+// Whether retirement figures are shown in future (nominal) money or deflated to today's money
+export type MoneyBasis = 'TODAY' | 'FUTURE';
+
 export interface RetirementResult {
   yearsToRetire: number;
   totalAccumulated: number;
   monthlyPensionPossible: number;
   isGoalReachable: boolean;
   shortfall: number;
+  depletionAge: number | null; // age at which the money runs out, null if it lasts past lifeExpectancy
   advice: string;
 }
 